@@ -1,19 +1,64 @@
 // Content script for DSA Problem Solver
 
-// Listen for messages from the popup
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  if (message.action === 'captureVisible') {
-    try {
-      // Just notify that we're ready - the popup will handle the capture
-      sendResponse({ success: true, message: 'Content script ready' });
-    } catch (error) {
-      sendResponse({ success: false, error: error.toString() });
+// Injected on demand by the side panel (see tabs.ts), guard against running twice
+if (!window.__leetGoatContentScript) {
+  window.__leetGoatContentScript = true;
+
+  // Listen for messages from the popup
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.action === 'captureVisible') {
+      try {
+        // Just notify that we're ready - the popup will handle the capture
+        sendResponse({ success: true, message: 'Content script ready' });
+      } catch (error) {
+        sendResponse({ success: false, error: error.toString() });
+      }
+    } else if (message.action === 'extractProblem') {
+      try {
+        const problem = extractProblem();
+        if (problem) {
+          sendResponse({ success: true, problem });
+        } else {
+          sendResponse({ success: false, error: 'No extractor for this page' });
+        }
+      } catch (error) {
+        sendResponse({ success: false, error: error.toString() });
+      }
+    } else if (message.action === 'getScrollMetrics') {
+      const container = findScrollContainer();
+      sendResponse({
+        success: true,
+        scrollTop: container.scrollTop,
+        scrollHeight: container.scrollHeight,
+        clientHeight: container.clientHeight
+      });
+    } else if (message.action === 'scrollTo') {
+      const container = findScrollContainer();
+      container.scrollTop = message.top;
+      // Give lazy content and sticky headers a moment to settle before the screenshot
+      requestAnimationFrame(() => {
+        setTimeout(() => sendResponse({ success: true, scrollTop: container.scrollTop }), 150);
+      });
+    } else if (message.action === 'getEditorCode') {
+      // success means an editor exists, its code may still be empty
+      sendResponse({
+        success: !!findEditorElement(),
+        code: readEditorCode(),
+        language: readEditorLanguage(),
+        editor: 'dom'
+      });
+    } else if (message.action === 'insertEditorCode') {
+      sendResponse(pasteIntoEditor(message.code));
+    } else if (message.action === 'selectRegion') {
+      selectRegion(message.savedRegion || null).then((region) => {
+        sendResponse({ success: !!region, region, viewportWidth: window.innerWidth });
+      });
     }
-  }
-  
-  // Return true to indicate we'll respond asynchronously
-  return true;
-});
+
+    // Return true to indicate we'll respond asynchronously
+    return true;
+  });
+}
 
 // Backup method using html2canvas if available
 function tryHtml2Canvas() {
@@ -29,4 +74,519 @@ function tryHtml2Canvas() {
     };
     document.head.appendChild(script);
   }
-} 
\ No newline at end of file
+}
+
+// ---------------------------------------------------------------------------
+// Scrolling capture
+// ---------------------------------------------------------------------------
+
+// The element that actually scrolls the problem. Split-pane sites like LeetCode
+// keep the window fixed and scroll an inner panel instead.
+function findScrollContainer() {
+  const root = document.scrollingElement || document.documentElement;
+  if (root.scrollHeight > root.clientHeight + 1) return root;
+
+  let best = root;
+  let bestOverflow = 0;
+  document.querySelectorAll('div, section, main, article').forEach((el) => {
+    const overflow = el.scrollHeight - el.clientHeight;
+    if (overflow <= bestOverflow || el.clientHeight < 200) return;
+    const overflowY = getComputedStyle(el).overflowY;
+    if (overflowY === 'auto' || overflowY === 'scroll') {
+      best = el;
+      bestOverflow = overflow;
+    }
+  });
+  return best;
+}
+
+// ---------------------------------------------------------------------------
+// Region selection
+// ---------------------------------------------------------------------------
+
+// Smaller selections are stray clicks, not a problem statement
+const MIN_REGION_SIZE = 10;
+
+const isUsableRegion = (rect) => !!rect && rect.width > MIN_REGION_SIZE && rect.height > MIN_REGION_SIZE;
+
+// Shows a drag-to-select overlay and resolves with the chosen rectangle in
+// viewport CSS pixels, or null when cancelled. A previously used region is
+// pre-drawn and can be reused with Enter.
+function selectRegion(savedRegion) {
+  return new Promise((resolve) => {
+    const overlay = document.createElement('div');
+    overlay.style.cssText =
+      'position:fixed;inset:0;z-index:2147483647;cursor:crosshair;user-select:none;';
+
+    const box = document.createElement('div');
+    box.style.cssText =
+      'position:fixed;border:2px solid #d21b1b;box-shadow:0 0 0 9999px rgba(0,0,0,0.45);display:none;pointer-events:none;';
+    overlay.appendChild(box);
+
+    const hint = document.createElement('div');
+    hint.textContent = savedRegion
+      ? 'Drag to select the problem · Enter to reuse the last region · Esc to cancel'
+      : 'Drag to select the problem · Esc to cancel';
+    hint.style.cssText =
+      'position:fixed;top:12px;left:50%;transform:translateX(-50%);padding:6px 12px;border-radius:6px;' +
+      'background:#000;color:#fff;font:13px -apple-system,BlinkMacSystemFont,sans-serif;pointer-events:none;';
+    overlay.appendChild(hint);
+
+    let region = null;
+    let start = null;
+
+    const draw = (rect) => {
+      box.style.display = 'block';
+      box.style.left = `${rect.x}px`;
+      box.style.top = `${rect.y}px`;
+      box.style.width = `${rect.width}px`;
+      box.style.height = `${rect.height}px`;
+    };
+
+    if (savedRegion) {
+      region = savedRegion;
+      draw(region);
+    }
+
+    const finish = (result) => {
+      document.removeEventListener('keydown', onKeyDown, true);
+      overlay.remove();
+      // Wait for the overlay to disappear from the next frame before the screenshot
+      requestAnimationFrame(() => requestAnimationFrame(() => resolve(result)));
+    };
+
+    const onKeyDown = (e) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        finish(null);
+      } else if (e.key === 'Enter' && isUsableRegion(region)) {
+        e.preventDefault();
+        finish(region);
+      }
+    };
+
+    overlay.addEventListener('mousedown', (e) => {
+      start = { x: e.clientX, y: e.clientY };
+      region = { x: start.x, y: start.y, width: 0, height: 0 };
+      draw(region);
+    });
+    overlay.addEventListener('mousemove', (e) => {
+      if (!start) return;
+      region = {
+        x: Math.min(start.x, e.clientX),
+        y: Math.min(start.y, e.clientY),
+        width: Math.abs(e.clientX - start.x),
+        height: Math.abs(e.clientY - start.y)
+      };
+      draw(region);
+    });
+    overlay.addEventListener('mouseup', () => {
+      start = null;
+      if (isUsableRegion(region)) {
+        finish(region);
+        return;
+      }
+      // Ignore stray clicks and go back to the saved region, if any, for Enter
+      region = savedRegion || null;
+      if (region) {
+        draw(region);
+      } else {
+        box.style.display = 'none';
+      }
+    });
+
+    document.addEventListener('keydown', onKeyDown, true);
+    document.documentElement.appendChild(overlay);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// DOM problem extraction
+// ---------------------------------------------------------------------------
+
+function extractProblem() {
+  // Site extractors, tried in order. Each returns a problem object or null.
+  const extractors = [
+    { site: 'leetcode', test: (host) => /(^|\.)leetcode\.(com|cn)$/.test(host), extract: extractLeetCode },
+    { site: 'hackerrank', test: (host) => /(^|\.)hackerrank\.com$/.test(host), extract: extractHackerRank },
+    { site: 'codeforces', test: (host) => /(^|\.)codeforces\.(com|ml)$/.test(host), extract: extractCodeforces },
+    { site: 'atcoder', test: (host) => /(^|\.)atcoder\.jp$/.test(host), extract: extractAtCoder }
+  ];
+  const extractor = extractors.find((e) => e.test(location.hostname));
+  if (!extractor) return null;
+
+  const problem = extractor.extract();
+  if (!problem || !problem.statement) return null;
+
+  return {
+    site: extractor.site,
+    url: location.href,
+    title: problem.title || document.title,
+    statement: problem.statement.replace(/\n{3,}/g, '\n\n'),
+    examples: problem.examples || [],
+    constraints: problem.constraints || [],
+    starterCode: problem.starterCode || ''
+  };
+}
+
+function extractLeetCode() {
+  const titleEl =
+    document.querySelector('[data-cy="question-title"]') ||
+    document.querySelector('.text-title-large a') ||
+    document.querySelector('.text-title-large');
+  const descriptionEl =
+    document.querySelector('[data-track-load="description_content"]') ||
+    document.querySelector('.question-content__JfgR') ||
+    document.querySelector('.elfjS');
+  if (!descriptionEl) return null;
+
+  // Constraints live in the <ul> following the "Constraints:" paragraph
+  let constraints = [];
+  const nodes = Array.from(descriptionEl.children);
+  const constraintsIndex = nodes.findIndex((n) => /^\s*Constraints:?\s*$/i.test(n.textContent || ''));
+  if (constraintsIndex !== -1) {
+    const list = nodes.slice(constraintsIndex + 1).find((n) => n.tagName === 'UL');
+    if (list) {
+      constraints = Array.from(list.querySelectorAll('li')).map((li) => htmlToMarkdown(li).trim());
+    }
+  }
+
+  // Examples are either <pre> blocks or .example-block divs
+  const exampleEls = descriptionEl.querySelectorAll('.example-block, pre');
+  const examples = Array.from(exampleEls)
+    .map((el) => parseLabelledExample(el.innerText || el.textContent || ''))
+    .filter(Boolean);
+
+  // Examples and constraints are reported separately, keep them out of the statement
+  const clone = descriptionEl.cloneNode(true);
+  clone.querySelectorAll('.example-block, pre').forEach((el) => el.remove());
+  clone.querySelectorAll('strong.example').forEach((el) => (el.closest('p') || el).remove());
+  const cloneNodes = Array.from(clone.children);
+  const cloneConstraintsIndex = cloneNodes.findIndex((n) => /^\s*Constraints:?\s*$/i.test(n.textContent || ''));
+  if (cloneConstraintsIndex !== -1) {
+    const list = cloneNodes.slice(cloneConstraintsIndex + 1).find((n) => n.tagName === 'UL');
+    cloneNodes[cloneConstraintsIndex].remove();
+    if (list) list.remove();
+  }
+
+  return {
+    title: titleEl ? titleEl.textContent.trim() : '',
+    statement: htmlToMarkdown(clone).trim(),
+    examples,
+    constraints,
+    starterCode: readEditorCode()
+  };
+}
+
+function extractHackerRank() {
+  const titleEl =
+    document.querySelector('.challenge-page-label-wrapper h1') ||
+    document.querySelector('h1.page-label') ||
+    document.querySelector('h1');
+  const bodyEl =
+    document.querySelector('.challenge-body-html') ||
+    document.querySelector('.challenge-text') ||
+    document.querySelector('.problem-statement');
+  if (!bodyEl) return null;
+
+  const sections = collectHeadingSections(bodyEl);
+  const constraints = splitConstraintLines(sections.find((s) => /constraints/i.test(s.heading)));
+
+  return {
+    title: titleEl ? titleEl.textContent.trim() : '',
+    statement: htmlToMarkdown(bodyEl).trim(),
+    examples: pairSampleSections(sections, /sample input/i, /sample output/i),
+    constraints,
+    starterCode: readEditorCode()
+  };
+}
+
+function extractCodeforces() {
+  const root = document.querySelector('.problem-statement');
+  if (!root) return null;
+
+  const titleEl = root.querySelector('.header .title');
+  const limits = ['.time-limit', '.memory-limit']
+    .map((sel) => root.querySelector(sel))
+    .filter(Boolean)
+    .map((el) => el.innerText.replace(/\n+/g, ' ').trim());
+
+  // Statement body is everything except the header and sample tests
+  const clone = root.cloneNode(true);
+  clone.querySelectorAll('.header, .sample-tests').forEach((el) => el.remove());
+
+  const inputs = root.querySelectorAll('.sample-test .input pre');
+  const outputs = root.querySelectorAll('.sample-test .output pre');
+  const examples = Array.from(inputs).map((pre, i) => ({
+    input: preText(pre),
+    output: outputs[i] ? preText(outputs[i]) : ''
+  }));
+
+  return {
+    title: titleEl ? titleEl.textContent.trim() : '',
+    statement: htmlToMarkdown(clone).trim(),
+    examples,
+    constraints: limits,
+    starterCode: ''
+  };
+}
+
+function extractAtCoder() {
+  const titleEl = document.querySelector('span.h2') || document.querySelector('.h2');
+  const statementEl = document.querySelector('#task-statement');
+  if (!statementEl) return null;
+
+  // Prefer the English statement when both languages are present
+  const root = statementEl.querySelector('.lang-en') || statementEl;
+  const sections = Array.from(root.querySelectorAll('section')).map((section) => {
+    const heading = section.querySelector('h3');
+    return {
+      heading: heading ? heading.textContent.trim() : '',
+      el: section
+    };
+  });
+
+  const constraintsSection = sections.find((s) => /^constraints$/i.test(s.heading));
+  const constraints = constraintsSection
+    ? Array.from(constraintsSection.el.querySelectorAll('li')).map((li) => htmlToMarkdown(li).trim())
+    : [];
+
+  const samples = sections.filter((s) => /^sample/i.test(s.heading));
+  const examples = [];
+  for (let i = 0; i < samples.length; i++) {
+    if (!/^sample input/i.test(samples[i].heading)) continue;
+    const output = samples[i + 1] && /^sample output/i.test(samples[i + 1].heading) ? samples[i + 1] : null;
+    const inputPre = samples[i].el.querySelector('pre');
+    const outputPre = output ? output.el.querySelector('pre') : null;
+    examples.push({
+      input: inputPre ? preText(inputPre) : '',
+      output: outputPre ? preText(outputPre) : ''
+    });
+  }
+
+  // Sample sections are reported separately, keep them out of the statement
+  const clone = root.cloneNode(true);
+  clone.querySelectorAll('section').forEach((section) => {
+    const heading = section.querySelector('h3');
+    if (heading && /^sample/i.test(heading.textContent.trim())) section.remove();
+  });
+
+  return {
+    title: titleEl ? titleEl.textContent.trim() : '',
+    statement: htmlToMarkdown(clone).trim(),
+    examples,
+    constraints,
+    starterCode: ''
+  };
+}
+
+// Split "Input: ... Output: ... Explanation: ..." text into an example object
+function parseLabelledExample(text) {
+  const match = text.match(/Input:?\s*([\s\S]*?)\s*Output:?\s*([\s\S]*?)(?:\s*Explanation:?\s*([\s\S]*))?$/i);
+  if (!match) return null;
+  const example = { input: match[1].trim(), output: match[2].trim() };
+  if (match[3]) example.explanation = match[3].trim();
+  return example;
+}
+
+// Group the block elements of a statement body under their nearest heading.
+// HackerRank renders headings either as <h*> or as a <p> holding a lone <strong>.
+function collectHeadingSections(root) {
+  const sections = [];
+  let current = null;
+  root.querySelectorAll('h1, h2, h3, h4, h5, h6, p, pre, ul').forEach((el) => {
+    // Skip blocks nested inside a block we already collected
+    if (el.parentElement && el.parentElement.closest('pre, ul')) return;
+
+    const strong = el.tagName === 'P' ? el.querySelector('strong') : null;
+    const isHeading = /^H\d$/.test(el.tagName) ||
+      (strong && strong.textContent.trim() === el.textContent.trim());
+    if (isHeading) {
+      current = { heading: el.textContent.trim(), nodes: [] };
+      sections.push(current);
+    } else if (current) {
+      current.nodes.push(el);
+    }
+  });
+  return sections;
+}
+
+function pairSampleSections(sections, inputPattern, outputPattern) {
+  const examples = [];
+  sections.forEach((section, i) => {
+    if (!inputPattern.test(section.heading)) return;
+    const next = sections[i + 1];
+    const inputPre = section.nodes.find((n) => n.tagName === 'PRE');
+    const outputPre = next && outputPattern.test(next.heading) ? next.nodes.find((n) => n.tagName === 'PRE') : null;
+    if (inputPre) {
+      examples.push({ input: preText(inputPre), output: outputPre ? preText(outputPre) : '' });
+    }
+  });
+  return examples;
+}
+
+function splitConstraintLines(section) {
+  if (!section) return [];
+  const list = section.nodes.find((n) => n.tagName === 'UL');
+  if (list) {
+    return Array.from(list.querySelectorAll('li')).map((li) => htmlToMarkdown(li).trim());
+  }
+  return section.nodes
+    .map((n) => htmlToMarkdown(n).trim())
+    .join('\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function preText(pre) {
+  // Codeforces splits sample lines into <div>s, innerText keeps the breaks
+  return (pre.innerText || pre.textContent || '').replace(/\u00a0/g, ' ').replace(/\s+$/, '');
+}
+
+// Read the starter code from whichever editor the page renders. Monaco and
+// CodeMirror only render the visible lines, so the side panel replaces this
+// with the full code read through the editor's API (see editor.ts).
+function readEditorCode() {
+  const monacoLines = document.querySelectorAll('.monaco-editor .view-lines .view-line');
+  if (monacoLines.length > 0) {
+    return Array.from(monacoLines)
+      .map((line) => ({ top: parseFloat(line.style.top) || 0, text: line.textContent || '' }))
+      .sort((a, b) => a.top - b.top)
+      .map((line) => line.text.replace(/\u00a0/g, ' '))
+      .join('\n')
+      .trimEnd();
+  }
+
+  const codeMirrorLines = document.querySelectorAll('.CodeMirror-code .CodeMirror-line, .cm-content .cm-line');
+  if (codeMirrorLines.length > 0) {
+    return Array.from(codeMirrorLines)
+      .map((line) => (line.textContent || '').replace(/\u00a0/g, ' ').replace(/\u200b/g, ''))
+      .join('\n')
+      .trimEnd();
+  }
+
+  const aceLines = document.querySelectorAll('.ace_editor .ace_line');
+  if (aceLines.length > 0) {
+    return Array.from(aceLines)
+      .map((line) => (line.textContent || '').replace(/\u00a0/g, ' '))
+      .join('\n')
+      .trimEnd();
+  }
+
+  return '';
+}
+
+function findEditorElement() {
+  return document.querySelector('.monaco-editor, .cm-editor, .CodeMirror, .ace_editor');
+}
+
+// Replaces the editor content from the content script's isolated world, where
+// the editor APIs are out of reach: select everything in the editor's input
+// element and paste over it, which every supported editor handles itself
+function pasteIntoEditor(code) {
+  const editor = findEditorElement();
+  if (!editor) {
+    return { success: false, error: 'No code editor found on this page' };
+  }
+
+  const input = editor.querySelector('textarea, [contenteditable="true"]');
+  if (!input) {
+    return { success: false, error: 'The code editor has no input element' };
+  }
+
+  input.focus();
+  document.execCommand('selectAll');
+  const data = new DataTransfer();
+  data.setData('text/plain', code);
+  input.dispatchEvent(new ClipboardEvent('paste', { clipboardData: data, bubbles: true, cancelable: true }));
+  return { success: true };
+}
+
+// Language id of the page editor when it exposes one in the DOM
+function readEditorLanguage() {
+  const monaco = document.querySelector('.monaco-editor[data-mode-id], .monaco-editor [data-mode-id]');
+  if (monaco) return monaco.getAttribute('data-mode-id');
+
+  const codeMirror = document.querySelector('.cm-content[data-language]');
+  if (codeMirror) return codeMirror.getAttribute('data-language');
+
+  return null;
+}
+
+// Minimal HTML -> Markdown conversion for problem statements
+function htmlToMarkdown(node) {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return node.textContent.replace(/\u00a0/g, ' ').replace(/\s+/g, ' ');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node;
+  const tag = el.tagName.toLowerCase();
+
+  // Rendered math: keep the TeX source instead of the visual spans
+  if (tag === 'script' && /^math\/tex/.test(el.type)) {
+    return /mode=display/.test(el.type) ? `\n\n$$${el.textContent}$$\n\n` : `$${el.textContent}$`;
+  }
+  if (el.classList.contains('katex')) {
+    const annotation = el.querySelector('annotation[encoding="application/x-tex"]');
+    return annotation ? `$${annotation.textContent}$` : el.textContent;
+  }
+  if (el.classList.contains('MathJax') || el.classList.contains('MathJax_Preview') || el.classList.contains('MathJax_Display')) {
+    return '';
+  }
+  if (['script', 'style', 'button', 'svg', 'noscript'].includes(tag)) return '';
+
+  const children = () => Array.from(el.childNodes).map(htmlToMarkdown).join('');
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return `\n\n${'#'.repeat(Math.min(Number(tag[1]) + 1, 6))} ${children().trim()}\n\n`;
+    case 'p':
+    case 'div':
+    case 'section':
+      return `\n\n${children().trim()}\n\n`;
+    case 'br':
+      return '\n';
+    case 'strong':
+    case 'b': {
+      const text = children().trim();
+      return text ? `**${text}**` : '';
+    }
+    case 'em':
+    case 'i': {
+      const text = children().trim();
+      return text ? `*${text}*` : '';
+    }
+    case 'code':
+      return `\`${el.textContent}\``;
+    case 'var':
+      return `$${el.textContent}$`;
+    case 'sup':
+      return `^${children().trim()}`;
+    case 'sub':
+      return `_${children().trim()}`;
+    case 'pre':
+      return `\n\n\`\`\`\n${preText(el)}\n\`\`\`\n\n`;
+    case 'ul':
+    case 'ol': {
+      const items = Array.from(el.children)
+        .filter((li) => li.tagName === 'LI')
+        .map((li, i) => `${tag === 'ol' ? `${i + 1}.` : '-'} ${htmlToMarkdown(li).trim().replace(/\n+/g, ' ')}`);
+      return `\n\n${items.join('\n')}\n\n`;
+    }
+    case 'li':
+      return children();
+    case 'img':
+      return el.alt ? `[image: ${el.alt}]` : '[image]';
+    case 'a':
+      return children();
+    default:
+      return children();
+  }
+}
@@ -0,0 +1,106 @@
+// Code runner for the side panel's "Run examples" action. This page is listed
+// under "sandbox" in the manifest: it has an opaque origin, no extension APIs
+// and a CSP that allows eval and WebAssembly. Every program runs in a Web
+// Worker that is terminated when it exceeds its time limit.
+
+// Bundled with the extension by vite.config.ts, so no code is fetched from a CDN.
+// The worker runs from a blob URL and needs the absolute address.
+const PYODIDE_URL = new URL('pyodide/', location.href).href;
+// Starting Pyodide compiles about 10 MB of WebAssembly, which must not count as run time
+const PYODIDE_LOAD_MS = 60000;
+
+// Runs inside the worker, so it may only use what it defines itself
+function workerMain() {
+  let pyodide = null;
+
+  const runJavaScript = async (source, stdin, write) => {
+    const print = (stream) => (...args) => {
+      write(stream, args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ') + '\n');
+    };
+    const sandboxConsole = { log: print('stdout'), info: print('stdout'), debug: print('stdout'), warn: print('stderr'), error: print('stderr') };
+    // Just enough of Node for competitive programming style input and output
+    const sandboxRequire = (name) => {
+      if (name === 'fs') return { readFileSync: () => stdin };
+      throw new Error(`Cannot find module '${name}'`);
+    };
+    const sandboxProcess = { stdout: { write: (text) => write('stdout', String(text)) }, argv: [] };
+
+    await new Function('console', 'require', 'process', source)(sandboxConsole, sandboxRequire, sandboxProcess);
+  };
+
+  const runPython = async (source, stdin, write, pyodideUrl) => {
+    if (!pyodide) {
+      self.importScripts(`${pyodideUrl}pyodide.js`);
+      pyodide = await self.loadPyodide({ indexURL: pyodideUrl });
+    }
+    const lines = stdin.split('\n');
+    let next = 0;
+    pyodide.setStdin({ stdin: () => (next < lines.length ? lines[next++] : undefined) });
+    pyodide.setStdout({ batched: (line) => write('stdout', line + '\n') });
+    pyodide.setStderr({ batched: (line) => write('stderr', line + '\n') });
+    // Fresh globals, so one run cannot leak into the next
+    await pyodide.runPythonAsync(source, { globals: pyodide.globals.get('dict')() });
+  };
+
+  self.onmessage = async (event) => {
+    const { id, language, source, stdin, pyodideUrl } = event.data;
+    const output = { stdout: '', stderr: '' };
+    const write = (stream, text) => {
+      output[stream] += text;
+    };
+
+    try {
+      if (language === 'python') {
+        await runPython(source, stdin, write, pyodideUrl);
+      } else {
+        await runJavaScript(source, stdin, write);
+      }
+      self.postMessage({ id, ...output, exitCode: 0 });
+    } catch (error) {
+      output.stderr += error && error.message ? error.message : String(error);
+      self.postMessage({ id, ...output, exitCode: 1 });
+    }
+  };
+}
+
+// One worker per language, replaced after a timeout kills it
+const workers = {};
+
+function getWorker(language) {
+  if (!workers[language]) {
+    const blob = new Blob([`(${workerMain.toString()})();`], { type: 'text/javascript' });
+    workers[language] = { worker: new Worker(URL.createObjectURL(blob)), warm: language !== 'python' };
+  }
+  return workers[language];
+}
+
+function run({ id, language, source, stdin, timeoutMs }) {
+  const entry = getWorker(language);
+  const budget = timeoutMs + (entry.warm ? 0 : PYODIDE_LOAD_MS);
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      entry.worker.terminate();
+      delete workers[language];
+      resolve({ stdout: '', stderr: '', exitCode: null, timedOut: true });
+    }, budget);
+
+    const onMessage = (event) => {
+      if (event.data.id !== id) return;
+      clearTimeout(timer);
+      entry.worker.removeEventListener('message', onMessage);
+      entry.warm = true;
+      resolve({ stdout: event.data.stdout, stderr: event.data.stderr, exitCode: event.data.exitCode, timedOut: false });
+    };
+    entry.worker.addEventListener('message', onMessage);
+    entry.worker.postMessage({ id, language, source, stdin, pyodideUrl: PYODIDE_URL });
+  });
+}
+
+window.addEventListener('message', async (event) => {
+  const request = event.data;
+  if (!request || request.type !== 'run') return;
+
+  const result = await run(request);
+  event.source.postMessage({ type: 'runResult', id: request.id, ...result }, '*');
+});
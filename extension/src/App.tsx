@@ -1,121 +1,38 @@
 import { useState, useEffect, useRef } from 'react'
 import './App.css'
-import ReactMarkdown from 'react-markdown'
-import remarkGfm from 'remark-gfm'
-import remarkMath from 'remark-math'
-import rehypeHighlight from 'rehype-highlight'
-import rehypeKatex from 'rehype-katex'
-import 'highlight.js/styles/github-dark.css'
-import 'katex/dist/katex.min.css'
-
-// Message type definition
-interface Message {
-  id: string;
-  type: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: Date;
-}
-
-// Proxy server URL - update this after deploying to Vercel
-const PROXY_URL = import.meta.env.VITE_PROXY_URL || 'https://pserver-six.vercel.app';
-
-// Custom pre component with copy button for code blocks
-const PreBlock = ({ children, ...props }: any) => {
-  const [copied, setCopied] = useState(false);
-  const preRef = useRef<HTMLPreElement>(null);
-  const codeRef = useRef<string>('');
-  
-  // Extract plain text from the code element
-  useEffect(() => {
-    if (preRef.current) {
-      const codeElement = preRef.current.querySelector('code');
-      if (codeElement) {
-        // Get clean text without line numbers or formatting artifacts
-        let text = codeElement.textContent || '';
-        // Remove any line numbers that might be present (common pattern: "1 " at start of lines)
-        text = text.replace(/^\s*\d+\s+/gm, '');
-        codeRef.current = text;
-      } else {
-        codeRef.current = preRef.current.textContent || '';
-      }
-    }
-  }, [children]);
-  
-  const copyToClipboard = async () => {
-    try {
-      const textToCopy = codeRef.current || preRef.current?.textContent || '';
-      
-      if (textToCopy) {
-        await navigator.clipboard.writeText(textToCopy);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      }
-    } catch (err) {
-      console.error('Failed to copy text: ', err);
-    }
-  };
-
-  return (
-    <div className="code-block-container">
-      <pre ref={preRef} {...props}>
-        {children}
-      </pre>
-      <button 
-        className={`copy-button ${copied ? 'copied' : ''}`}
-        onClick={copyToClipboard}
-      >
-        {copied ? '✓ Copied!' : 'Copy'}
-      </button>
-    </div>
-  );
-};
-
-// Custom code component for inline code
-const CodeInline = ({ children, className, ...props }: any) => {
-  return <code className={className} {...props}>{children}</code>;
-};
+import { extractProblemFromTab, formatProblemForPrompt, parseExamplesFromText } from './problem'
+import { getActiveTab } from './tabs'
+import { captureVisibleTab, captureFullPage, captureRegion, mergeOcrTexts, type CaptureMode } from './capture'
+import { contentSnapshot, getSession, saveSession, sessionIdFor, titleFromText, toStoredMessages, fromStoredMessages, type ProblemSource, type Session } from './history'
+import HistoryView from './HistoryView'
+import ReviewQueueView from './ReviewQueueView'
+import DashboardView from './DashboardView'
+import ExportMenu from './ExportMenu'
+import type { Message } from './types'
+import { proxyFetch } from './proxy'
+import { streamTaskCompletion, type StreamCallbacks, type StreamResult } from './streaming'
+import { loadSettings, onSettingsChanged, DEFAULT_SETTINGS, type Settings } from './settings'
+import SettingsView from './SettingsView'
+import Markdown from './Markdown'
+import SolutionView from './SolutionView'
+import { runExamples } from './runner'
+import { toChatHistory } from './followUp'
+import { verifyAndRepair } from './verify'
+import { LANGUAGES, findLanguage } from './languages'
+import { insertEditorCode, readEditorCode } from './editor'
+import { codeReviewRequest } from './review'
+import { enrollProblem, listDueCards } from './srs'
+import { extractTranslatedCode } from './translate'
+import { FOLLOW_UP_REPLY_TOKENS, foldIntoMemory, isPinned, planContext, promptBudget, type ConversationMemory } from './context'
+import { HINT_LEVELS, type PracticeState, type SolveMode } from './practice'
+import { parseSolution, replaceSection, type Solution, type SolutionSectionId } from './solution'
 
-// Add type definition for Chrome API
-declare global {
-  interface Window {
-    chrome: {
-      tabs: {
-        captureVisibleTab: (
-          windowId: number | null,
-          options: { format: string, quality: number },
-          callback: (dataUrl: string) => void
-        ) => void;
-        query: (
-          queryInfo: { active: boolean, currentWindow: boolean },
-          callback: (tabs: { id: number }[]) => void
-        ) => void;
-        executeScript: (
-          tabId: number,
-          details: { code: string } | { file: string },
-          callback?: (result: any[]) => void
-        ) => void;
-      },
-      runtime: {
-        lastError?: {
-          message?: string;
-        },
-        sendMessage: (
-          message: any,
-          callback?: (response: any) => void
-        ) => void;
-        onMessage: {
-          addListener: (
-            callback: (
-              message: any,
-              sender: any,
-              sendResponse: (response?: any) => void
-            ) => void
-          ) => void;
-        },
-        getURL: (path: string) => string;
-      }
-    }
-  }
+// The session the current conversation is saved under
+interface SessionInfo {
+  id: string;
+  title: string;
+  url: string;
+  createdAt: string;
 }
 
 function App() {
@@ -125,10 +42,37 @@ function App() {
   const [currentInput, setCurrentInput] = useState<string>('')
   const [selectedLanguage, setSelectedLanguage] = useState<string>('python')
   const [currentProblemContext, setCurrentProblemContext] = useState<string>('')
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('auto')
+  const [reviewBeforeSolving, setReviewBeforeSolving] = useState(false)
+  const [verifySolutions, setVerifySolutions] = useState(false)
+  const [verifyStatus, setVerifyStatus] = useState<string>('')
+  const [solveMode, setSolveMode] = useState<SolveMode>('solution')
+  // Hint ladder or mock interview in progress, null once the full solution is shown
+  const [practice, setPractice] = useState<PracticeState | null>(null)
+  // Summary of follow-up turns that no longer fit the context budget
+  const [memory, setMemory] = useState<ConversationMemory | null>(null)
+  // Extracted problem text awaiting review, null when the review pane is closed
+  const [draftProblem, setDraftProblem] = useState<{ text: string, source: ProblemSource } | null>(null)
+  // The user's own code awaiting review, null when the review pane is closed
+  const [codeReview, setCodeReview] = useState<{ code: string, language: string } | null>(null)
+  const [currentSession, setCurrentSession] = useState<SessionInfo | null>(null)
+  const [view, setView] = useState<'chat' | 'history' | 'reviews' | 'dashboard' | 'settings'>('chat')
+  const [dueReviews, setDueReviews] = useState(0)
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  // Set while a response is streaming, aborting it stops generation
+  const [abortController, setAbortController] = useState<AbortController | null>(null)
+  const [testingMessageId, setTestingMessageId] = useState<string | null>(null)
+  const [translating, setTranslating] = useState<{ messageId: string, language: string } | null>(null)
   
   // Check if we're running in a Chrome extension context
   const [isExtension, setIsExtension] = useState(false)
   
+  // Sessions already sent to the review queue while the panel is open
+  const enrolledRef = useRef<Set<string>>(new Set())
+
+  // What the open session last saved or loaded, see contentSnapshot
+  const savedContentRef = useRef<string | null>(null)
+  
   // Refs for auto-scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const chatAreaRef = useRef<HTMLDivElement>(null)
@@ -137,23 +81,74 @@ function App() {
     // Check if we're in a Chrome extension
     if (window.chrome && window.chrome.runtime) {
       setIsExtension(true)
+      loadSettings().then(setSettings)
+      onSettingsChanged(setSettings)
     } else {
       setErrorDetails('Not running in Chrome extension context. Please load as extension.')
     }
   }, [])
 
+  const refreshDueReviews = () => {
+    listDueCards().then(cards => setDueReviews(cards.length))
+  }
+
+  useEffect(() => {
+    if (isExtension) {
+      refreshDueReviews()
+    }
+  }, [isExtension])
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }, [messages])
 
+  // Save the conversation once a response has finished streaming
+  useEffect(() => {
+    if (isProcessing || !currentSession || messages.length === 0 || !isExtension) return
+
+    const content = {
+      language: selectedLanguage,
+      problemContext: currentProblemContext,
+      messages: toStoredMessages(messages),
+      practice,
+      memory
+    }
+    const snapshot = contentSnapshot(content)
+    if (snapshot === savedContentRef.current) return
+
+    savedContentRef.current = snapshot
+    saveSession({
+      ...currentSession,
+      ...content,
+      updatedAt: new Date().toISOString()
+    }).catch((error) => console.error('Failed to save session: ', error))
+  }, [messages, isProcessing, currentSession, currentProblemContext, selectedLanguage, practice, memory, isExtension])
+
+  // Queue the problem for spaced-repetition review once it has a full solution
+  useEffect(() => {
+    if (isProcessing || !currentSession || !isExtension || enrolledRef.current.has(currentSession.id)) return
+
+    const solution = messages.find(message => message.solution)?.solution
+    if (!solution) return
+
+    enrolledRef.current.add(currentSession.id)
+    enrollProblem({
+      id: currentSession.id,
+      title: currentSession.title,
+      url: currentSession.url,
+      solution
+    }).catch((error) => console.error('Failed to add review card: ', error))
+  }, [messages, isProcessing, currentSession, isExtension])
+
   // Helper function to add messages
-  const addMessage = (type: 'user' | 'assistant' | 'system', content: string) => {
+  const addMessage = (type: 'user' | 'assistant' | 'system', content: string, extra: Partial<Message> = {}) => {
     const newMessage: Message = {
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
       type,
       content,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...extra
     }
     setMessages(prev => [...prev, newMessage])
     return newMessage.id
@@ -171,6 +166,45 @@ function App() {
     })
   }
 
+  // Helper function to patch a single message by id
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(message => message.id === id ? { ...message, ...changes } : message))
+  }
+
+  // Stream a reply into a new assistant message. The message is only added once
+  // the first tokens arrive, so a failed request leaves no empty bubble behind.
+  const streamAssistantReply = async (
+    stream: (callbacks: StreamCallbacks) => Promise<StreamResult>
+  ): Promise<StreamResult & { messageId: string | null }> => {
+    const controller = new AbortController();
+    setAbortController(controller);
+    
+    let messageId: string | null = null;
+    try {
+      const result = await stream({
+        signal: controller.signal,
+        onUpdate: (content) => {
+          if (!messageId) {
+            messageId = addMessage('assistant', content);
+          } else {
+            updateLastAssistantMessage(content);
+          }
+        }
+      });
+      
+      if (result.aborted) {
+        addMessage('system', '⏹️ Generation stopped.');
+      } else if (result.error) {
+        addMessage('system', `⚠️ ${result.error}. Ask a follow-up like "continue" to get the rest.`);
+      } else if (result.finishReason === 'length') {
+        addMessage('system', '⚠️ The answer hit the token limit and was cut off. Ask a follow-up like "continue" to get the rest.');
+      }
+      return { ...result, messageId };
+    } finally {
+      setAbortController(null);
+    }
+  };
+
   // Simple testMode that uses a sample image for OCR testing
   const useTestImage = async () => {
     const testImageUrl = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAASwAAABkCAYAAAA8AQ3AAAAABmJLR0QA/wD/AP+gvaeTAAAJr0lEQVR4nO3df2yU9R3A8fcz1zaCZBJJQSZptsVJ1iFm3SDNbFWQ+gMQJGMLZgRdy49oYDJZZlwAxR+RMSFbIkwrirAlCGSgIhAgOFeyua5TywiMbTAkBCHMAbvJbnfPsz/OM66H3D3fXr+93vN5JSR3T59vn89J+/ann3vuSQIAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIBmpryeoL6+vktFRcWvTNM8Lcuy9LBu3br0bt26pXo9NwDEQmHhtm3ztm37nVP9TFxcnCovLx/hdI64cGrP0KFDJzc1Ne3wYjIA8JrP58vQ2vMAcLrRWmthYSGlBSBmGIZhTJs27azWelpYWN7PDQAxa968eWu01tPDwvJ+XgCIWSNGjLiktb46bBjT/LQAELsyMjLu01pPDBsmuEdKAIhdPXv2zNNav+9+IzExUZ8/f36k13MBQKzr37//FK31IkmSNE1TlZeX/9jrGQHgnjBhwoQjWuuTXs8BAPec3Nzcd7XWx7weBADuWT/+8Y9ztdb/8XoQALgn5ebm/lNrfc3rQQDgnjV48OBrtNbf6/P5/qC1fiNs+JIkSaaUlPRDr2cCgHuO1vpr8rGQ2traBy5cuMBrVQDQCW3cuPFhSZK0oii2xYsXP+j1PABwT7r//vu3SZKklFKqqanpR17PAwD3pPT09O1hS8Nf3XtqbW3tXVNT03yz2dyqKEqrqqotiqK0ybLcJstym2madlKSZJmmaSuKYmcy95AkrMK4lxDfRsIqjLEsK8GyrEQbQCi+/Rvffhb3cwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABAlj322CWt9RGvBwFi2VNPPXX95MmTXo8BxKy1a9dOlyTpRVVVX3rvvfe8HgeISf379/9ca31Da60bGxuv63NdXjsFIF1+/PHHk7XWDeG7/9nZ2T/TZ7p8+ZLXAwIx4/LlyyO11pej3gfDNE09atSos5G3GDly5PTq6uq3W1pa/uz1ZECsUFV1j9Z6V4cfPOTznWpsbBwYevvAgQOPSZJkSpKklFJHLMtyxg57PS/glaqqKldVNVdV1Qfk+vp6f319/XNyXV1dvlxXV5cn19TUPCnX1NQMlc+cOfPTkydPpufk5NwQwxDf19f37DPPPLNm1apVe3fs2HGmoqLipqZp2uu5gFgzf/78qqamplNnz54d19jYOL+xsfFcY2PjQrm2tnZZbW3tG7Isvy3Lcr2iKJdUVW1VVbVNVdU2wzBaVVVtMwyjTVGUNsuyWm3bbpVluWXr1q3z7eXLF4SqafHixYrX8wOeW7NmzcxFixYt9fl8C/x+/0K/3z9fr1ixYl5VVVW+fPLkyQnymTNnhuqGhtFyXV3dE3JNTc14+cyZM8/KZ8+efUw+duzYKPnw4cPZ8qFDh4bJhw4dGigfOHBgsPO1Tz/99EDnnpqamoGhz9euXes3TZP/HQON+P3+4YZhfGEYhs+2bbWurs6vqmpNpDuhYRhmpOshB0JeVw1VkYWrqlokSZIecvXqVZqKwamuutHfm4bhN03zilM9q1atOhL63gZ9PiNDluUUSZJkSZISlVK9FEVJVVUVzT4gCsYXX3zxsK7rxzZs2LDQ5/Md37Rp01+2bNlywul+K7+8eUTqJkW6Vw71s9BDXiPDq4WP2xXFHzx0iGpCz/vLL7/sr/z+979v+/777x+7dOlSN+f7W7duTW9ra+vh9XHimEmk7U1JSUl3XFxcYnx8fKKmaQ8qitJDluVkwzCSVFVNkmU5SZblRFVVE3U8IpPnQwBdoqamJquurk5++OGHP5UkKU3X9ZTW1tbUlpaW1LNnz6acPHky1b2VFREAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABwF/lfQo5qbC9PV1IAAAAASUVORK5CYII=';
@@ -178,14 +212,14 @@ function App() {
     return testImageUrl;
   };
 
-  const captureCurrentTab = async (): Promise<string | null> => {
+  const captureCurrentTab = async (): Promise<string[] | null> => {
     try {
       setErrorDetails('');
       setIsProcessing(true);
       
       // If in test mode, use a sample image
       if (false) {
-        return await useTestImage();
+        return [await useTestImage()];
       }
       
       // If we are in a Chrome extension, use the tabs API
@@ -195,32 +229,24 @@ function App() {
         return null;
       }
       
-      // Return a promise that will resolve with the data URL
-      return new Promise((resolve) => {
-        window.chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-          const currentTab = tabs[0];
-          if (!currentTab || !currentTab.id) {
-            setErrorDetails('No active tab found');
-            resolve(null);
-            return;
-          }
-          
-          // Use chrome.tabs.captureVisibleTab as a fallback
-          window.chrome.tabs.captureVisibleTab(
-            null,
-            { format: 'png', quality: 100 },
-            (dataUrl) => {
-              if (window.chrome.runtime.lastError) {
-                setErrorDetails(`Tab capture error: ${window.chrome.runtime.lastError.message || 'Unknown error'}`);
-                resolve(null);
-                return;
-              }
-              
-              resolve(dataUrl);
-            }
-          );
-        });
-      });
+      const currentTab = await getActiveTab();
+      if (!currentTab) {
+        setErrorDetails('No active tab found');
+        return null;
+      }
+      
+      // Full page mode scrolls through the problem and returns one shot per step
+      if (captureMode === 'fullPage') {
+        return await captureFullPage(currentTab.id);
+      }
+      
+      // Region mode crops the screenshot to the rectangle dragged on the page
+      if (captureMode === 'region') {
+        const cropped = await captureRegion(currentTab);
+        return cropped ? [cropped] : null;
+      }
+      
+      return [await captureVisibleTab()];
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       setErrorDetails(`Tab capture error: ${errorMessage}`);
@@ -228,55 +254,58 @@ function App() {
     }
   };
 
-  const recognizeText = async (imageUrl: string) => {
+  // Run a single screenshot through the proxy's OCR endpoint
+  const requestOcr = async (imageUrl: string): Promise<string> => {
+    // Call proxy server instead of Google Vision API directly
+    const base64Image = imageUrl.split(',')[1];
+    
+    const response = await proxyFetch(settings, '/api/vision', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        requests: [
+          {
+            image: {
+              content: base64Image
+            },
+            features: [
+              {
+                type: 'TEXT_DETECTION',
+                maxResults: 1
+              }
+            ]
+          }
+        ]
+      })
+    });
+    
+    if (!response.ok) {
+      throw new Error(`Proxy Server Error: ${response.status} ${response.statusText}`);
+    }
+    
+    const result = await response.json();
+    
+    return result.responses[0]?.textAnnotations?.[0]?.description || '';
+  };
+
+  const recognizeText = async (imageUrls: string[], pageUrl: string) => {
     try {
-      // Call proxy server instead of Google Vision API directly
-      const base64Image = imageUrl.split(',')[1];
-      
-      const response = await fetch(`${PROXY_URL}/api/vision`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          requests: [
-            {
-              image: {
-                content: base64Image
-              },
-              features: [
-                {
-                  type: 'TEXT_DETECTION',
-                  maxResults: 1
-                }
-              ]
-            }
-          ]
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Proxy Server Error: ${response.status} ${response.statusText}`);
+      // Screenshots of a scrolled page overlap, merge their text without the repeated lines
+      const texts: string[] = [];
+      for (const imageUrl of imageUrls) {
+        texts.push(await requestOcr(imageUrl));
       }
-      
-      const result = await response.json();
-      
-      const text = result.responses[0]?.textAnnotations?.[0]?.description || '';
+      const text = mergeOcrTexts(texts);
       
       // Update UI with extracted text
       if (!text || text.trim() === '') {
         setErrorDetails('No text was found in the image. Try again with a different page.');
       } else {
-        // Store the problem context for follow-up questions
-        setCurrentProblemContext(text);
-        
-        // Automatically analyze with LLM after successful text extraction
-        try {
-          await callOpenAIO3Mini(text, true);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          setErrorDetails(`LLM error: ${errorMessage}`);
-        }
+        // Preprocess the OCR text to better highlight code blocks
+        const problemText = preprocessProblemText(text);
+        await solveProblem(problemText, { title: titleFromText(problemText), url: pageUrl });
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -286,12 +315,121 @@ function App() {
     }
   };
 
+  // Open the review pane, or go straight to the solution when review is off
+  const solveProblem = async (problemText: string, source: ProblemSource) => {
+    if (reviewBeforeSolving) {
+      setDraftProblem({ text: problemText, source });
+      return;
+    }
+    
+    await generateSolution(problemText, source);
+  };
+
+  // Generate from the reviewed text, which also becomes the follow-up context
+  const solveDraftProblem = async () => {
+    if (draftProblem === null || !draftProblem.text.trim() || isProcessing) return;
+    
+    const { text, source } = draftProblem;
+    setDraftProblem(null);
+    setErrorDetails('');
+    // Pasted problems have no page title, name them after their first line
+    await generateSolution(text, source.title ? source : { ...source, title: titleFromText(text) });
+  };
+
+  // Store the problem context for follow-up questions and generate the solution
+  const generateSolution = async (problemText: string, source: ProblemSource) => {
+    const sessionId = sessionIdFor(source);
+    
+    // Already solved in this language, reopen it instead of paying for another solve.
+    // Practice modes only resume an unfinished run of the same mode, a saved
+    // solution would give away what the hints and the interview hold back.
+    const saved = isExtension ? await getSession(sessionId) : null;
+    const resumable = solveMode === 'solution' || saved?.practice?.mode === solveMode;
+    if (saved && saved.language === selectedLanguage && resumable) {
+      openSession(saved);
+      addMessage('system', '📚 Restored your saved session for this problem. Delete it from History to solve it again.', { transient: true });
+      return;
+    }
+    
+    setMessages([]);
+    setMemory(null);
+    setCurrentSession({
+      id: sessionId,
+      title: source.title,
+      url: source.url,
+      createdAt: new Date().toISOString()
+    });
+    setCurrentProblemContext(problemText);
+    setPractice(solveMode === 'solution' ? null : { mode: solveMode, revealed: 0 });
+    
+    try {
+      if (solveMode === 'hints') {
+        await revealHint(0, problemText, []);
+      } else if (solveMode === 'interview') {
+        await startInterview(problemText);
+      } else {
+        await callOpenAIO3Mini(problemText);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setErrorDetails(`LLM error: ${errorMessage}`);
+    }
+  };
+
+  // Continue a conversation from the history view
+  const openSession = (session: Session) => {
+    savedContentRef.current = contentSnapshot(session);
+    setMessages(fromStoredMessages(session.messages));
+    setCurrentProblemContext(session.problemContext);
+    setSelectedLanguage(session.language);
+    setPractice(session.practice || null);
+    setMemory(session.memory || null);
+    setCurrentSession({
+      id: session.id,
+      title: session.title,
+      url: session.url,
+      createdAt: session.createdAt
+    });
+    setDraftProblem(null);
+    setErrorDetails('');
+    setView('chat');
+  };
+
+  // Pull the problem straight from the page DOM, returns false when the site has no extractor
+  const extractFromPage = async (): Promise<boolean> => {
+    if (!window.chrome || !window.chrome.tabs || !window.chrome.scripting) {
+      return false;
+    }
+    
+    const currentTab = await getActiveTab();
+    if (!currentTab) {
+      return false;
+    }
+    
+    const problem = await extractProblemFromTab(currentTab.id);
+    if (!problem) {
+      return false;
+    }
+    
+    await solveProblem(formatProblemForPrompt(problem), { title: problem.title, url: problem.url });
+    return true;
+  };
+
   const handleCapture = async () => {
     try {
+      setErrorDetails('');
       setIsProcessing(true);
-      const imageUrl = await captureCurrentTab();
-      if (imageUrl) {
-        await recognizeText(imageUrl);
+      
+      // Supported sites are read from the DOM, OCR is only the fallback
+      if (captureMode === 'auto' && await extractFromPage()) {
+        setIsProcessing(false);
+        return;
+      }
+      
+      const imageUrls = await captureCurrentTab();
+      if (imageUrls && imageUrls.length > 0) {
+        const currentTab = await getActiveTab();
+        await recognizeText(imageUrls, currentTab?.url || '');
       } else {
         setIsProcessing(false);
       }
@@ -302,162 +440,319 @@ function App() {
     }
   };
 
-  const callOpenAIO3Mini = async (extractedText: string, _isInitialProblem: boolean = false) => {
+  const callOpenAIO3Mini = async (problemText: string) => {
     try {
       // Show loading state
       setIsProcessing(true);
       
-      // Preprocess the extracted text to better highlight code blocks
-      const processedText = preprocessProblemText(extractedText);
+      // Generate the solution with the configured provider; the prompt is the server's solve template
+      const result = await streamAssistantReply(callbacks => streamTaskCompletion(settings, 'solve', {
+        problemText,
+        language: selectedLanguage
+      }, callbacks));
       
-      // Generate the solution using proxy server
-      const response = await fetch(`${PROXY_URL}/api/openai`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini", 
-          stream: true, 
-          messages: [
-            {
-              role: "system",
-              content: `**System Prompt - LeetCode Solution Assistant**
-
-You are an expert AI that generates flawless LeetCode solutions in STRICT MARKDOWN FORMAT. For every coding problem:
-
-**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
-
-**LANGUAGE: Generate the solution in ${selectedLanguage.toUpperCase()}**
-
-1. **REQUIRED SECTIONS** (in this exact order with EXACT markdown headers):
-   ## 🧐 Problem Summary
-    - Give a detailed but not overly wordy summary of the problem, you should clearly state what the problem is asking for. 
-   ## ✅ Solution
-    - Please provide the solution for the inputted problem in ${selectedLanguage.toUpperCase()}, when generating the code please pertain to the rules in the "CODE FORMATTING RULES"
-   ### ⏱️ Time Complexity: $\\mathcal{O}(actual_complexity)$
-    - Please provide a detailed explanation as to why the time complexities is what it is, 2-3 sentences should suffice. Make sure to wrap the complexity notation in backticks like \`O(n)\` or \`O(log n)\` so it appears in code formatting. IMPORTANT: In your header, use the format "### ⏱️ Time Complexity: $\\mathcal{O}(actual_complexity)$" where you replace "actual_complexity" with the real complexity like "n" or "log n".
-   ### 📦 Space Complexity: $\\mathcal{O}(actual_complexity)$
-    - Please provide a detailed explanation as to why the space complexities is what it is, 2-3 sentences should suffice. Make sure to wrap the complexity notation in backticks like \`O(1)\` or \`O(n)\` so it appears in code formatting. IMPORTANT: In your header, use the format "### 📦 Space Complexity: $\\mathcal{O}(actual_complexity)$" where you replace "actual_complexity" with the real complexity like "1" or "n".
-   ## ✍️ Concrete Example
-    please provide an example to help the user understand the logic, anticipate steps that are complex and could cause confusion and explain such steps 
-   ## 🤓 Problem Giveaways
-    - **"Quote 1 from the problem that was a giveaway to use the technique you chose"** 
-        - How it helped you identify the correct technique to use, the purpose is to help users recognize these patterns for future interviews, thus anticipate similar quotes to look for that could be giveaway to use the same technqiue, THIS IS CRITICAL PLEASE INCLUDE THIS provide specific examples of variations of this quote that could hint as using the same technique. 
-    
-    - **"Quote 2 from the problem that was a giveaway to use the technique you chose"** 
-        - How it helped you identify the correct technique to use, the purpose is to help users recognize these patterns for future interviews, thus anticipate similar quotes to look for that could be giveaway to use the same technqiue, THIS IS CRITICAL PLEASE INCLUDE THIS provide specific examples of variations of this quote that could hint as using the same technique. 
-
-    - **"Quote 3 from the problem that was a giveaway to use the technique you chose"** 
-        - How it helped you identify the correct technique to use, the purpose is to help users recognize these patterns for future interviews, thus anticipate similar quotes to look for that could be giveaway to use the same technqiue, THIS IS CRITICAL PLEASE INCLUDE THIS provide specific examples of variations of this quote that could hint as using the same technique. 
-   ## 💪 Similar Problems
-     
-     - Similar problem 1
-     - Similar problem 2
-     - Similar problem 3 
-
-**IMPORTANT: Do NOT include the current problem itself in the Similar Problems section. Only suggest OTHER problems that use similar techniques or concepts.**
-
-**FORMAT SIMILAR PROBLEMS AS LINKS: Use this exact format for similar problems:**
-- [Problem Number. Problem Name](https://leetcode.com/problems/problem-slug/)
-
-**Example:**
-- [15. 3Sum](https://leetcode.com/problems/3sum/)
-- [167. Two Sum II - Input Array is Sorted](https://leetcode.com/problems/two-sum-ii-input-array-is-sorted/)
-- [18. 4Sum](https://leetcode.com/problems/4sum/)
-
-2. **MARKDOWN FORMATTING RULES**:
-   - ALWAYS use ## for main headers
-   - ALWAYS use ### for sub-headers  
-   - ALWAYS wrap code in \`\`\`${selectedLanguage} code blocks
-   - Use **bold** for emphasis
-   - Use - for bullet points
-   - Use proper markdown syntax throughout
-
-3. **CODE FORMATTING RULES**:
-   \`\`\`${selectedLanguage}
-   # MUST:
-   - Use exact starter code from problem if available
-   - Include all imports/includes needed
-   - Proper indentation (4 spaces for Python, 2 spaces for JavaScript, etc.)
-   - One statement per line
-   - Type hints/annotations if the language supports them
-   - Proper closing brackets
-   - Comments if helpful for understanding
-   \`\`\`
-
-**YOU MUST FOLLOW THIS EXACT FORMAT WITH PROPER MARKDOWN SYNTAX AND GENERATE CODE IN ${selectedLanguage.toUpperCase()} ONLY.**`
-            },
-            {
-              role: "user",
-              content: `Please solve this LeetCode problem and provide a comprehensive solution:
+      // Attach the parsed sections so the answer renders as solution cards
+      const solution = result.aborted || result.error ? null : parseSolution(result.content);
+      if (solution && result.messageId) {
+        updateMessage(result.messageId, { solution });
+        if (verifySolutions) {
+          return await verifySolution(result.messageId, result.content, solution, problemText);
+        }
+      }
+      
+      return result.content;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`OpenAI error: ${errorMessage}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Show one step of the hint ladder; the last step is the normal full solution
+  const revealHint = async (level: number, problemText: string, history: Message[]) => {
+    const hintLevel = HINT_LEVELS[level].id;
+    if (hintLevel === 'code') {
+      setPractice(null);
+      await callOpenAIO3Mini(problemText);
+      return;
+    }
 
-${processedText}
+    try {
+      setIsProcessing(true);
+      const result = await streamAssistantReply(callbacks => streamTaskCompletion(settings, 'hint', {
+        problemText,
+        language: selectedLanguage,
+        history: toChatHistory(history),
+        level: hintLevel
+      }, callbacks));
+      if (result.messageId) {
+        updateMessage(result.messageId, { hintLevel });
+      }
+      setPractice({ mode: 'hints', revealed: level + 1 });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const startInterview = async (problemText: string) => {
+    try {
+      setIsProcessing(true);
+      await streamAssistantReply(callbacks => streamTaskCompletion(settings, 'interview', {
+        problemText,
+        language: selectedLanguage
+      }, callbacks));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRevealNext = async () => {
+    if (!practice || isProcessing) return;
+    try {
+      if (practice.mode === 'interview') {
+        setPractice(null);
+        await callOpenAIO3Mini(currentProblemContext);
+      } else {
+        await revealHint(practice.revealed, currentProblemContext, messages);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setErrorDetails(`LLM error: ${errorMessage}`);
+    }
+  };
 
-IMPORTANT: Do NOT include this current problem in your "Similar Problems" section. Only suggest OTHER different problems that use similar techniques.`
-            }
-          ],
-          max_completion_tokens: 2000 
-        })
+  // Test the fresh solution and let the model repair failures; the message ends
+  // up with the best version plus a log of the attempts
+  const verifySolution = async (messageId: string, content: string, solution: Solution, problemContext: string) => {
+    const controller = new AbortController();
+    setAbortController(controller);
+    try {
+      const verified = await verifyAndRepair(settings, {
+        content,
+        solution,
+        language: selectedLanguage,
+        problemContext,
+        signal: controller.signal,
+        onProgress: setVerifyStatus
       });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Proxy Server Error: ${response.status} - ${errorText}`);
+      if (!verified) {
+        addMessage('system', '🧪 Skipped verification: the problem text has no examples and no edge cases could be generated.');
+        return content;
       }
-      
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to get response reader');
+      updateMessage(messageId, verified);
+      return verified.content;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setErrorDetails(`Verification failed: ${errorMessage}`);
+      return content;
+    } finally {
+      setAbortController(null);
+      setVerifyStatus('');
+    }
+  };
+
+  // Rewrite one section of a solution in place, keeping the rest of the answer
+  const regenerateSection = async (messageId: string, sectionId: SolutionSectionId) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message?.solution || isProcessing) return;
+
+    const original = { content: message.content, solution: message.solution };
+    const section = original.solution.sections.find(s => s.id === sectionId);
+    if (!section) return;
+
+    const controller = new AbortController();
+    setAbortController(controller);
+    setIsProcessing(true);
+    setErrorDetails('');
+
+    const applyReplacement = (replacement: string) => {
+      const content = replaceSection(original.solution, sectionId, replacement);
+      // Results for the old code no longer apply once the solution changes
+      updateMessage(messageId, {
+        content,
+        solution: parseSolution(content) || original.solution,
+        testRun: sectionId === 'solution' ? undefined : message.testRun,
+        verification: sectionId === 'solution' ? undefined : message.verification,
+        translations: sectionId === 'solution' ? undefined : message.translations
+      });
+    };
+
+    try {
+      const result = await streamTaskCompletion(settings, 'section', {
+        problemText: currentProblemContext,
+        language: selectedLanguage,
+        solution: original.content,
+        section: sectionId,
+        heading: section.heading
+      }, {
+        signal: controller.signal,
+        onUpdate: applyReplacement
+      });
+
+      // A stopped, interrupted or empty rewrite would leave a half-written section behind
+      if (result.aborted || result.error || !result.content.trim()) {
+        updateMessage(messageId, original);
+        if (result.error) {
+          setErrorDetails(`Failed to regenerate section: ${result.error}`);
+        }
+        return;
       }
-      
-      let fullSolution = '';
-      const decoder = new TextDecoder();
-      
-      // Add initial assistant message for streaming
-      addMessage('assistant', '');
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) break;
-          
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              
-              if (data === '[DONE]') {
-                return fullSolution;
-              }
-              
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content;
-                
-                if (content) {
-                  fullSolution += content;
-                  updateLastAssistantMessage(fullSolution); // Update UI in real-time
-                }
-              } catch (e) {
-                // Skip invalid JSON lines
-                continue;
-              }
-            }
-          }
+      applyReplacement(result.content);
+    } catch (error) {
+      updateMessage(messageId, original);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      setErrorDetails(`Failed to regenerate section: ${errorMessage}`);
+    } finally {
+      setAbortController(null);
+      setIsProcessing(false);
+    }
+  };
+
+  // Rewrite just the solution code in another language, keeping the algorithm
+  const translateSolution = async (messageId: string, language: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const code = message?.solution?.code;
+    if (!message || !code || isProcessing) return;
+
+    const others = (message.translations || []).filter(translation => translation.language !== language);
+    const applyTranslation = (content: string) => {
+      const source = extractTranslatedCode(content);
+      if (source) {
+        updateMessage(messageId, { translations: [...others, { language, source }] });
+      }
+    };
+
+    const controller = new AbortController();
+    setAbortController(controller);
+    setIsProcessing(true);
+    setTranslating({ messageId, language });
+    setErrorDetails('');
+
+    try {
+      const result = await streamTaskCompletion(settings, 'translate', {
+        problemText: currentProblemContext,
+        code: code.source,
+        from: code.language || selectedLanguage,
+        to: language
+      }, {
+        signal: controller.signal,
+        onUpdate: applyTranslation
+      });
+
+      // A stopped or interrupted translation would leave half the code behind
+      if (result.aborted || result.error || !extractTranslatedCode(result.content).trim()) {
+        updateMessage(messageId, { translations: message.translations });
+        if (result.error) {
+          setErrorDetails(`Failed to translate solution: ${result.error}`);
         }
-      } finally {
-        reader.releaseLock();
+        return;
       }
-      
-      return fullSolution;
+      applyTranslation(result.content);
     } catch (error) {
+      updateMessage(messageId, { translations: message.translations });
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`OpenAI error: ${errorMessage}`);
+      setErrorDetails(`Failed to translate solution: ${errorMessage}`);
+    } finally {
+      setAbortController(null);
+      setIsProcessing(false);
+      setTranslating(null);
+    }
+  };
+
+  // Check the solution code against the examples in the problem text
+  const runSolutionExamples = async (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    const code = message?.solution?.code;
+    if (!code || testingMessageId) return;
+
+    setTestingMessageId(messageId);
+    try {
+      const testRun = await runExamples(settings, {
+        language: code.language || selectedLanguage,
+        code: code.source,
+        examples: parseExamplesFromText(currentProblemContext),
+        statement: currentProblemContext
+      });
+      updateMessage(messageId, { testRun });
+    } finally {
+      setTestingMessageId(null);
+    }
+  };
+
+  // While practicing, follow-ups stay in the coach or interviewer role so they do not give the answer away
+  const practiceRole = (state: PracticeState | null) => {
+    const level = state?.mode === 'hints' && state.revealed > 0 ? HINT_LEVELS[state.revealed - 1].id : null;
+    return { mode: state?.mode || null, level: level === 'code' ? null : level };
+  };
+
+  // Fill the review pane from the code editor on the problem page
+  const grabEditorCode = async () => {
+    setErrorDetails('');
+    const tab = isExtension ? await getActiveTab() : null;
+    if (!tab) {
+      setErrorDetails('No active tab found');
+      return;
+    }
+
+    const editorCode = await readEditorCode(tab.id);
+    if (!editorCode) {
+      setErrorDetails('No code editor found on this page. Paste your code instead.');
+      return;
+    }
+    const language = (editorCode.language && findLanguage(editorCode.language)?.id) || selectedLanguage;
+    setCodeReview({ code: editorCode.code, language });
+  };
+
+  // Replace the code in the problem page's editor with a code block from the chat
+  const insertIntoEditor = async (code: string, fenceLanguage: string | null): Promise<boolean> => {
+    setErrorDetails('');
+    const tab = isExtension ? await getActiveTab() : null;
+    if (!tab) {
+      setErrorDetails('No active tab found');
+      return false;
+    }
+
+    const language = (fenceLanguage && findLanguage(fenceLanguage)?.id) || selectedLanguage;
+    const result = await insertEditorCode(tab.id, code, language);
+    if (result.editorLanguage) {
+      const label = findLanguage(language)?.label || language;
+      setErrorDetails(`The page editor is set to ${result.editorLanguage} but the code is in ${label}. Switch the editor language first.`);
+      return false;
+    }
+    if (!result.success) {
+      setErrorDetails(result.error || 'Could not insert the code.');
+      return false;
+    }
+    return true;
+  };
+
+  const openCodeReview = () => {
+    setCodeReview({ code: '', language: selectedLanguage });
+    if (isExtension) {
+      grabEditorCode();
+    }
+  };
+
+  // Review the user's code against the captured problem
+  const submitCodeReview = async () => {
+    if (!codeReview || !codeReview.code.trim() || isProcessing) return;
+
+    const code = codeReview.code.trimEnd();
+    const { language } = codeReview;
+    setCodeReview(null);
+    addMessage('user', codeReviewRequest(code, language));
+
+    try {
+      setIsProcessing(true);
+      await streamAssistantReply(callbacks => streamTaskCompletion(settings, 'review', {
+        problemText: currentProblemContext,
+        language,
+        code
+      }, callbacks));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      addMessage('assistant', `❌ **Error**: ${errorMessage}`);
     } finally {
       setIsProcessing(false);
     }
@@ -475,110 +770,24 @@ IMPORTANT: Do NOT include this current problem in your "Similar Problems" sectio
     try {
       setIsProcessing(true);
       
-      // Build conversation context for the AI
-      const conversationHistory = messages
-        .filter(msg => msg.type !== 'system')
-        .map(msg => ({
-          role: msg.type === 'user' ? 'user' : 'assistant',
-          content: msg.content
-        }));
-      
-      // Add the current question
-      conversationHistory.push({
-        role: 'user',
-        content: userQuestion
-      });
-      
-      const response = await fetch(`${PROXY_URL}/api/openai`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini", 
-          stream: true, 
-          messages: [
-            {
-              role: "system",
-              content: `You are an expert coding assistant helping with LeetCode problems. The user has already received a solution and is now asking follow-up questions about it.
-
-**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
-
-**LANGUAGE: When providing code examples, use ${selectedLanguage.toUpperCase()}**
-
-Context about the original problem:
-${currentProblemContext ? `\`\`\`\n${currentProblemContext}\n\`\`\`` : 'No problem context available'}
-
-Guidelines for follow-up responses:
-1. Be concise and focused on the specific question
-2. Use proper markdown formatting with ## for headers, ### for subheaders
-3. Wrap code in \`\`\`${selectedLanguage} code blocks
-4. If explaining concepts, provide clear examples
-5. If the user asks for variations, provide complete working solutions
-6. If they ask about complexity, be specific with mathematical notation using $\\mathcal{O}(n)$ format
-7. Reference the original solution when relevant
-
-Remember: This is a follow-up conversation, so you can reference previous parts of the discussion.`
-            },
-            ...conversationHistory
-          ],
-          max_completion_tokens: 1500 
-        })
-      });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Proxy Server Error: ${response.status} - ${errorText}`);
-      }
-      
-      // Handle streaming response
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
-      
-      let fullResponse = '';
-      const decoder = new TextDecoder();
-      
-      // Add initial assistant message for streaming
-      addMessage('assistant', '');
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          
-          if (done) break;
-          
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              
-              if (data === '[DONE]') {
-                return;
-              }
-              
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content;
-                
-                if (content) {
-                  fullResponse += content;
-                  updateLastAssistantMessage(fullResponse);
-                }
-              } catch (e) {
-                // Skip invalid JSON lines
-                continue;
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
+      // Fit the conversation into the context budget, summarizing older turns when needed
+      const contextOptions = { ...followUpContext(), question: userQuestion };
+      let plan = planContext(contextOptions);
+      let sentMemory = memory;
+      if (plan.toFold.length > 0) {
+        sentMemory = await foldIntoMemory(settings, memory, plan.toFold);
+        setMemory(sentMemory);
+        plan = planContext({ ...contextOptions, memory: sentMemory });
       }
       
+      await streamAssistantReply(callbacks => streamTaskCompletion(settings, 'followup', {
+        problemText: currentProblemContext,
+        language: selectedLanguage,
+        history: plan.history,
+        question: userQuestion,
+        memory: sentMemory?.summary || null,
+        ...practiceRole(practice)
+      }, callbacks, { maxTokens: FOLLOW_UP_REPLY_TOKENS }));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       addMessage('assistant', `❌ **Error**: ${errorMessage}`);
@@ -587,6 +796,25 @@ Remember: This is a follow-up conversation, so you can reference previous parts
     }
   };
 
+  // Everything a follow-up request is built from, apart from the question
+  const followUpContext = () => ({
+    problemText: currentProblemContext,
+    history: messages,
+    question: '',
+    memory,
+    budget: promptBudget(settings)
+  });
+
+  const togglePin = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (message) {
+      updateMessage(messageId, { pinned: !message.pinned });
+    }
+  };
+
+  const hasExamples = parseExamplesFromText(currentProblemContext).length > 0;
+  const contextUsage = messages.length > 0 ? planContext(followUpContext()) : null;
+
   // Handle Enter key press
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -600,10 +828,73 @@ Remember: This is a follow-up conversation, so you can reference previous parts
       {/* Header */}
       <div className="header">
         <h1>🐐 LeetGoat</h1>
+        {isExtension && (
+          <div className="header-actions">
+            <button 
+              onClick={() => setView(view === 'history' ? 'chat' : 'history')}
+              disabled={isProcessing}
+              className="header-button"
+            >
+              {view === 'history' ? '💬 Chat' : '📚 History'}
+            </button>
+            <button 
+              onClick={() => setView(view === 'reviews' ? 'chat' : 'reviews')}
+              disabled={isProcessing}
+              className="header-button"
+              title="Problems due for review"
+            >
+              {view === 'reviews' ? '💬 Chat' : `🔁 Review${dueReviews > 0 ? ` (${dueReviews})` : ''}`}
+            </button>
+            <button 
+              onClick={() => setView(view === 'dashboard' ? 'chat' : 'dashboard')}
+              disabled={isProcessing}
+              className="header-button"
+              title="Progress by pattern"
+            >
+              {view === 'dashboard' ? '💬 Chat' : '📊'}
+            </button>
+            <button 
+              onClick={() => setView(view === 'settings' ? 'chat' : 'settings')}
+              disabled={isProcessing}
+              className="header-button"
+              title="Settings"
+            >
+              {view === 'settings' ? '💬 Chat' : '⚙️'}
+            </button>
+          </div>
+        )}
       </div>
 
+      {/* History */}
+      {view === 'history' && (
+        <div className="main-content">
+          <HistoryView onOpen={openSession} onClose={() => setView('chat')} />
+        </div>
+      )}
+
+      {/* Spaced-repetition reviews */}
+      {view === 'reviews' && (
+        <div className="main-content">
+          <ReviewQueueView onOpen={openSession} onClose={() => setView('chat')} onChange={refreshDueReviews} />
+        </div>
+      )}
+
+      {/* Progress dashboard */}
+      {view === 'dashboard' && (
+        <div className="main-content">
+          <DashboardView onOpen={openSession} onClose={() => setView('chat')} />
+        </div>
+      )}
+
+      {/* Settings */}
+      {view === 'settings' && (
+        <div className="main-content">
+          <SettingsView settings={settings} onSave={setSettings} onClose={() => setView('chat')} />
+        </div>
+      )}
+
       {/* Main Content */}
-      <div className="main-content">
+      <div className="main-content" hidden={view !== 'chat'}>
         {/* Chat Area */}
         <div className="chat-area" ref={chatAreaRef}>
           {!isExtension && (
@@ -612,7 +903,7 @@ Remember: This is a follow-up conversation, so you can reference previous parts
             </div>
           )}
           
-          {messages.length === 0 && !errorDetails && isExtension && (
+          {messages.length === 0 && !errorDetails && isExtension && draftProblem === null && (
             <div className="empty-state">
               <div className="empty-state-icon">🧠</div>
               <div className="empty-state-text">Ready to solve problems!</div>
@@ -624,25 +915,170 @@ Remember: This is a follow-up conversation, so you can reference previous parts
           {messages.map((message) => (
             <div key={message.id} className={`message ${message.type}`}>
               <div className="message-content">
-                <div className="simple-markdown">
-                  <ReactMarkdown 
-                    remarkPlugins={[remarkGfm, remarkMath]}
-                    rehypePlugins={[rehypeHighlight, rehypeKatex]}
-                    components={{
-                      pre: PreBlock,
-                      code: CodeInline
-                    }}
-                  >
-                    {message.content}
-                  </ReactMarkdown>
-                </div>
+                {message.solution ? (
+                  <SolutionView
+                    solution={message.solution}
+                    language={selectedLanguage}
+                    onRegenerate={(sectionId) => regenerateSection(message.id, sectionId)}
+                    disabled={isProcessing}
+                    onRunExamples={hasExamples ? () => runSolutionExamples(message.id) : undefined}
+                    testRun={message.testRun}
+                    verification={message.verification}
+                    running={testingMessageId === message.id}
+                    onInsertCode={isExtension ? insertIntoEditor : undefined}
+                    translations={message.translations}
+                    onTranslate={(language) => translateSolution(message.id, language)}
+                    translating={translating?.messageId === message.id ? translating.language : null}
+                  />
+                ) : (
+                  <>
+                    {message.hintLevel && (
+                      <div className="hint-label">
+                        {HINT_LEVELS.find(level => level.id === message.hintLevel)?.label}
+                      </div>
+                    )}
+                    <Markdown onInsertCode={isExtension && message.type === 'assistant' ? insertIntoEditor : undefined}>
+                      {message.content}
+                    </Markdown>
+                  </>
+                )}
               </div>
               <div className="message-timestamp">
+                {message.type !== 'system' && (
+                  <button
+                    className={`pin-button ${isPinned(message, messages) ? 'pinned' : ''}`}
+                    onClick={() => togglePin(message.id)}
+                    disabled={!!message.solution && message.id === messages.find(m => m.solution)?.id}
+                    title={isPinned(message, messages) ? 'Always sent verbatim in follow-ups' : 'Pin: always send this message verbatim in follow-ups'}
+                  >
+                    📌
+                  </button>
+                )}
                 {message.timestamp.toLocaleTimeString()}
               </div>
             </div>
           ))}
           
+          {/* Export a solved session */}
+          {currentSession && !isProcessing && messages.some(message => message.solution) && (
+            <ExportMenu
+              session={{
+                title: currentSession.title,
+                url: currentSession.url,
+                language: selectedLanguage,
+                problemContext: currentProblemContext,
+                messages
+              }}
+              onError={setErrorDetails}
+            />
+          )}
+          
+          {/* Hint ladder / mock interview controls */}
+          {practice && messages.length > 0 && (
+            <div className="practice-bar">
+              <div className="practice-status">
+                {practice.mode === 'interview'
+                  ? '🎤 Mock interview: answer the questions and describe your approach below'
+                  : `🪜 Hint ${practice.revealed}/${HINT_LEVELS.length - 1}: try it yourself before revealing more`}
+              </div>
+              <button
+                onClick={handleRevealNext}
+                disabled={isProcessing}
+                className="secondary-button"
+              >
+                {practice.mode === 'interview'
+                  ? '✅ Reveal solution'
+                  : `Reveal ${HINT_LEVELS[practice.revealed].label}`}
+              </button>
+            </div>
+          )}
+          
+          {/* Pane for the user's own code to review */}
+          {codeReview !== null && (
+            <div className="problem-review">
+              <div className="problem-review-title">🔍 Review my code</div>
+              {!currentProblemContext && (
+                <div className="problem-review-hint">
+                  No problem captured yet, so the review will infer the problem from your code. Capture the problem first for a better review.
+                </div>
+              )}
+              <textarea
+                value={codeReview.code}
+                onChange={(e) => setCodeReview({ ...codeReview, code: e.target.value })}
+                placeholder="Paste your code, or grab it from the editor on the page..."
+                className="problem-review-input"
+                rows={12}
+                spellCheck={false}
+              />
+              <div className="problem-review-actions">
+                <select
+                  className="language-dropdown"
+                  value={codeReview.language}
+                  onChange={(e) => setCodeReview({ ...codeReview, language: e.target.value })}
+                  disabled={isProcessing}
+                >
+                  {LANGUAGES.map(language => (
+                    <option key={language.id} value={language.id}>{language.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={grabEditorCode}
+                  disabled={isProcessing || !isExtension}
+                  className="secondary-button"
+                >
+                  ⤵️ Grab from page
+                </button>
+              </div>
+              <div className="problem-review-actions">
+                <button 
+                  onClick={() => setCodeReview(null)}
+                  disabled={isProcessing}
+                  className="secondary-button"
+                >
+                  Cancel
+                </button>
+                <button 
+                  onClick={submitCodeReview}
+                  disabled={isProcessing || !codeReview.code.trim()}
+                  className="capture-button"
+                >
+                  🔍 Review
+                </button>
+              </div>
+            </div>
+          )}
+          
+          {/* Review pane for the extracted problem text */}
+          {draftProblem !== null && (
+            <div className="problem-review">
+              <div className="problem-review-title">📝 Review problem text</div>
+              <textarea
+                value={draftProblem.text}
+                onChange={(e) => setDraftProblem({ ...draftProblem, text: e.target.value })}
+                placeholder="Paste or type the problem statement, examples and starter code..."
+                className="problem-review-input"
+                disabled={isProcessing}
+                rows={12}
+              />
+              <div className="problem-review-actions">
+                <button 
+                  onClick={() => setDraftProblem(null)}
+                  disabled={isProcessing}
+                  className="secondary-button"
+                >
+                  Cancel
+                </button>
+                <button 
+                  onClick={solveDraftProblem}
+                  disabled={isProcessing || !draftProblem.text.trim()}
+                  className="capture-button"
+                >
+                  🧠 Generate Solution
+                </button>
+              </div>
+            </div>
+          )}
+          
           {errorDetails && errorDetails.trim() !== '' && (
             <div className="error-details">
               <strong>Error:</strong> {errorDetails}
@@ -664,17 +1100,39 @@ Remember: This is a follow-up conversation, so you can reference previous parts
                 onChange={(e) => setSelectedLanguage(e.target.value)}
                 disabled={isProcessing}
               >
-                <option value="python">Python</option>
-                <option value="javascript">JavaScript</option>
-                <option value="java">Java</option>
-                <option value="cpp">C++</option>
-                <option value="c">C</option>
-                <option value="csharp">C#</option>
-                <option value="go">Go</option>
-                <option value="rust">Rust</option>
-                <option value="typescript">TypeScript</option>
-                <option value="swift">Swift</option>
-                <option value="kotlin">Kotlin</option>
+                {LANGUAGES.map(language => (
+                  <option key={language.id} value={language.id}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+            
+            <div className="language-selector">
+              <span className="language-label">Mode:</span>
+              <select 
+                id="mode-select"
+                className="language-dropdown"
+                value={solveMode} 
+                onChange={(e) => setSolveMode(e.target.value as SolveMode)}
+                disabled={isProcessing}
+              >
+                <option value="solution">Full solution</option>
+                <option value="hints">Hint ladder</option>
+                <option value="interview">Mock interview</option>
+              </select>
+            </div>
+            
+            <div className="language-selector">
+              <span className="language-label">Capture:</span>
+              <select 
+                id="capture-mode-select"
+                className="language-dropdown"
+                value={captureMode} 
+                onChange={(e) => setCaptureMode(e.target.value as CaptureMode)}
+                disabled={isProcessing}
+              >
+                <option value="auto">Auto</option>
+                <option value="fullPage">Full page</option>
+                <option value="region">Select region</option>
               </select>
             </div>
             
@@ -683,8 +1141,52 @@ Remember: This is a follow-up conversation, so you can reference previous parts
               disabled={isProcessing}
               className="capture-button"
             >
-              {isProcessing ? '🔄 Processing...' : '📸 Capture & Analyze'}
+              {isProcessing ? (verifyStatus || '🔄 Processing...') : '📸 Capture & Analyze'}
             </button>
+            
+            {abortController && (
+              <button 
+                onClick={() => abortController.abort()}
+                className="secondary-button stop-button"
+              >
+                ⏹️ Stop generating
+              </button>
+            )}
+            
+            <div className="review-options">
+              <label className="review-toggle">
+                <input
+                  type="checkbox"
+                  checked={reviewBeforeSolving}
+                  onChange={(e) => setReviewBeforeSolving(e.target.checked)}
+                  disabled={isProcessing}
+                />
+                Review text before solving
+              </label>
+              <label className="review-toggle" title="Run the solution against the examples and edge cases, and let the model fix failures">
+                <input
+                  type="checkbox"
+                  checked={verifySolutions}
+                  onChange={(e) => setVerifySolutions(e.target.checked)}
+                  disabled={isProcessing}
+                />
+                Verify & fix
+              </label>
+              <button 
+                onClick={() => setDraftProblem({ text: '', source: { title: '', url: '' } })}
+                disabled={isProcessing}
+                className="link-button"
+              >
+                ✏️ Paste problem
+              </button>
+              <button 
+                onClick={openCodeReview}
+                disabled={isProcessing}
+                className="link-button"
+              >
+                🔍 Review my code
+              </button>
+            </div>
           </div>
           
           {/* Follow-up question input - only show if we have messages */}
@@ -695,7 +1197,9 @@ Remember: This is a follow-up conversation, so you can reference previous parts
                   value={currentInput}
                   onChange={(e) => setCurrentInput(e.target.value)}
                   onKeyDown={handleKeyPress}
-                  placeholder="Ask a follow-up question... (e.g., 'Can you explain the time complexity?', 'Show me a different approach', 'What if the input was sorted?')"
+                  placeholder={practice?.mode === 'interview'
+                    ? 'Answer the interviewer or describe your approach...'
+                    : "Ask a follow-up question... (e.g., 'Can you explain the time complexity?', 'Show me a different approach', 'What if the input was sorted?')"}
                   className="followup-input"
                   disabled={isProcessing}
                   rows={2}
@@ -708,6 +1212,24 @@ Remember: This is a follow-up conversation, so you can reference previous parts
                   {isProcessing ? '⏳' : '➤'}
                 </button>
               </div>
+              {contextUsage && (
+                <div
+                  className="context-meter"
+                  title="Estimated tokens the next follow-up will send. Older turns are summarized once the budget is full; pinned messages are always sent verbatim."
+                >
+                  <div className="context-meter-bar">
+                    <div
+                      className={`context-meter-fill ${contextUsage.usedTokens > contextUsage.budget * 0.8 ? 'high' : ''}`}
+                      style={{ width: `${Math.min(100, (contextUsage.usedTokens / contextUsage.budget) * 100)}%` }}
+                    />
+                  </div>
+                  <span>
+                    Context {(contextUsage.usedTokens / 1000).toFixed(1)}k / {(contextUsage.budget / 1000).toFixed(1)}k tokens
+                    {contextUsage.pinnedCount > 0 && ` · 📌 ${contextUsage.pinnedCount}`}
+                    {memory && ` · ${memory.coveredIds.length} earlier messages summarized`}
+                  </span>
+                </div>
+              )}
               <div className="followup-hint">
                 💡 Try asking: "Explain the algorithm", "Show alternative solution", "What's the space complexity?", "How to optimize this?"
               </div>
@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react'
+import { listSessions, type Session } from './history'
+import { buildProgress, type Progress } from './progress'
+import { listReviewCards } from './srs'
+import { DIFFICULTIES } from './taxonomy'
+
+interface DashboardViewProps {
+  onOpen: (session: Session) => void;
+  onClose: () => void;
+}
+
+// Solved counts per pattern and difficulty, weak areas and recent activity
+function DashboardView({ onOpen, onClose }: DashboardViewProps) {
+  const [progress, setProgress] = useState<Progress | null>(null)
+
+  useEffect(() => {
+    Promise.all([listSessions(), listReviewCards()])
+      .then(([sessions, cards]) => setProgress(buildProgress(sessions, cards)))
+  }, [])
+
+  if (!progress) {
+    return (
+      <div className="history-view">
+        <div className="empty-state-subtext">Loading progress...</div>
+      </div>
+    );
+  }
+
+  const covered = progress.byPattern.filter(entry => entry.solved > 0);
+  const maxSolved = Math.max(1, ...covered.map(entry => entry.solved));
+
+  return (
+    <div className="history-view">
+      <div className="history-toolbar">
+        <div className="review-queue-count">📊 Progress</div>
+        <button onClick={onClose} className="secondary-button">
+          Back
+        </button>
+      </div>
+
+      {progress.solved === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">📊</div>
+          <div className="empty-state-text">No solved problems yet</div>
+          <div className="empty-state-subtext">Solve a few problems to see your progress by pattern</div>
+        </div>
+      ) : (
+        <>
+          <div className="dashboard-stats">
+            <div className="dashboard-stat">
+              <div className="dashboard-stat-value">{progress.solved}</div>
+              <div className="dashboard-stat-label">solved</div>
+            </div>
+            <div className="dashboard-stat">
+              <div className="dashboard-stat-value">{progress.solvedThisWeek}</div>
+              <div className="dashboard-stat-label">this week</div>
+            </div>
+            <div className="dashboard-stat">
+              <div className="dashboard-stat-value">{covered.length}/{progress.byPattern.length}</div>
+              <div className="dashboard-stat-label">patterns</div>
+            </div>
+          </div>
+
+          <div className="dashboard-section">
+            <div className="dashboard-section-title">By difficulty</div>
+            <div className="complexity-badges">
+              {DIFFICULTIES.map(difficulty => (
+                <span key={difficulty.id} className={`difficulty-badge ${difficulty.id}`}>
+                  {difficulty.label}: {progress.byDifficulty[difficulty.id]}
+                </span>
+              ))}
+              {progress.byDifficulty.unknown > 0 && (
+                <span className="difficulty-badge">Unrated: {progress.byDifficulty.unknown}</span>
+              )}
+            </div>
+          </div>
+
+          <div className="dashboard-section">
+            <div className="dashboard-section-title">By pattern</div>
+            {covered.map(entry => (
+              <div key={entry.pattern.id} className="dashboard-bar-row">
+                <span className="dashboard-bar-label">{entry.pattern.label}</span>
+                <span className="dashboard-bar">
+                  <span className="dashboard-bar-fill" style={{ width: `${(entry.solved / maxSolved) * 100}%` }} />
+                </span>
+                <span className="dashboard-bar-count">{entry.solved}</span>
+              </div>
+            ))}
+          </div>
+
+          {progress.weakAreas.length > 0 && (
+            <div className="dashboard-section">
+              <div className="dashboard-section-title">Weak areas</div>
+              {progress.weakAreas.map(area => (
+                <div key={area.pattern.id} className="dashboard-weak-area">
+                  <span>{area.pattern.label}</span>
+                  <span className="history-item-meta">{area.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {progress.uncovered.length > 0 && (
+            <details className="dashboard-section">
+              <summary className="dashboard-section-title">Not covered yet ({progress.uncovered.length})</summary>
+              <div className="complexity-badges">
+                {progress.uncovered.map(pattern => (
+                  <span key={pattern.id} className="difficulty-badge">{pattern.label}</span>
+                ))}
+              </div>
+            </details>
+          )}
+
+          <div className="dashboard-section">
+            <div className="dashboard-section-title">Recent activity</div>
+            {progress.recent.map(({ session, pattern, difficulty }) => (
+              <div key={session.id} className="history-item">
+                <button className="history-item-main" onClick={() => onOpen(session)}>
+                  <div className="history-item-title">{session.title}</div>
+                  <div className="history-item-meta">
+                    {pattern?.label || 'Uncategorized'}
+                    {difficulty && ` · ${DIFFICULTIES.find(candidate => candidate.id === difficulty)?.label}`}
+                    {' · '}{new Date(session.updatedAt).toLocaleDateString()}
+                  </div>
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default DashboardView
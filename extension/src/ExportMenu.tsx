@@ -0,0 +1,41 @@
+import { useState } from 'react'
+import { EXPORT_FORMATS, exportSession, type ExportableSession, type ExportFormat } from './exportSession'
+
+interface ExportMenuProps {
+  session: ExportableSession;
+  onError: (message: string) => void;
+}
+
+// Export dropdown shown under a solved session
+function ExportMenu({ session, onError }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    try {
+      await exportSession(session, format);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      onError(`Export failed: ${errorMessage}`);
+    }
+  };
+
+  return (
+    <div className="export-menu">
+      <button onClick={() => setOpen(!open)} className="link-button">
+        ⬇️ Export
+      </button>
+      {open && (
+        <div className="export-menu-items">
+          {EXPORT_FORMATS.map(format => (
+            <button key={format.id} onClick={() => handleExport(format.id)} className="export-menu-item">
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react'
+import { listSessions, deleteSession, searchSessions, type Session } from './history'
+import { deleteReviewCard } from './srs'
+
+interface HistoryViewProps {
+  onOpen: (session: Session) => void;
+  onClose: () => void;
+}
+
+const hostOf = (url: string): string => {
+  try {
+    return url ? new URL(url).hostname : 'Pasted text';
+  } catch {
+    return url;
+  }
+};
+
+// Searchable list of saved sessions
+function HistoryView({ onOpen, onClose }: HistoryViewProps) {
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [query, setQuery] = useState<string>('')
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    await deleteReviewCard(id);
+    setSessions(prev => prev.filter(session => session.id !== id));
+  };
+
+  const visibleSessions = searchSessions(sessions, query);
+
+  return (
+    <div className="history-view">
+      <div className="history-toolbar">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search saved problems..."
+          className="history-search"
+          autoFocus
+        />
+        <button onClick={onClose} className="secondary-button">
+          Back
+        </button>
+      </div>
+
+      {isLoading && <div className="empty-state-subtext">Loading history...</div>}
+
+      {!isLoading && visibleSessions.length === 0 && (
+        <div className="empty-state">
+          <div className="empty-state-icon">📚</div>
+          <div className="empty-state-text">
+            {sessions.length === 0 ? 'No saved sessions yet' : 'No matches'}
+          </div>
+          <div className="empty-state-subtext">Solved problems are saved here automatically</div>
+        </div>
+      )}
+
+      {visibleSessions.map((session) => (
+        <div key={session.id} className="history-item">
+          <button className="history-item-main" onClick={() => onOpen(session)}>
+            <div className="history-item-title">{session.title}</div>
+            <div className="history-item-meta">
+              {hostOf(session.url)} · {session.language} · {session.messages.length} messages · {new Date(session.updatedAt).toLocaleDateString()}
+            </div>
+          </button>
+          <button
+            className="history-delete-button"
+            onClick={() => handleDelete(session.id)}
+            title="Delete session"
+          >
+            🗑️
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default HistoryView
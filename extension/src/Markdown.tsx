@@ -0,0 +1,139 @@
+import { createContext, useContext, useState, useRef, type ComponentPropsWithoutRef } from 'react'
+import ReactMarkdown, { type ExtraProps } from 'react-markdown'
+import { REHYPE_PLUGINS, REMARK_PLUGINS } from './markdownPlugins'
+import 'highlight.js/styles/github-dark.css'
+import 'katex/dist/katex.min.css'
+
+interface MarkdownContextValue {
+  source: string;
+  onInsertCode?: (code: string, language: string | null) => Promise<boolean>;
+}
+
+const MarkdownContext = createContext<MarkdownContextValue>({ source: '' });
+
+interface SourcePosition {
+  start: { column: number, offset?: number };
+  end: { offset?: number };
+}
+
+/**
+ * Returns the code of a fenced or indented code block exactly as written in
+ * the markdown source, without the fences or the indentation of the list or
+ * quote it sits in.
+ */
+const codeFromSource = (source: string, position: SourcePosition): { code: string, language: string | null } | null => {
+  if (position.start.offset === undefined || position.end.offset === undefined) return null;
+
+  // The first line starts at the block, later lines still carry the container indent
+  const indent = position.start.column - 1;
+  const lines = source
+    .slice(position.start.offset, position.end.offset)
+    .split('\n')
+    .map((line, i) => i === 0 ? line : line.replace(new RegExp(`^ {0,${indent}}`), ''));
+
+  const fence = /^(`{3,}|~{3,})\s*([^\s`]*)/.exec(lines[0]);
+  if (!fence) {
+    return { code: lines.map(line => line.replace(/^ {4}/, '')).join('\n'), language: null };
+  }
+
+  const body = lines.slice(1);
+  if (body.length > 0 && new RegExp(`^\\s*${fence[1][0]}{${fence[1].length},}\\s*$`).test(body[body.length - 1])) {
+    body.pop();
+  }
+  return { code: body.join('\n'), language: fence[2] || null };
+};
+
+// Custom pre component with copy and insert buttons for code blocks
+const PreBlock = ({ children, node, ...props }: ComponentPropsWithoutRef<'pre'> & ExtraProps) => {
+  const { source, onInsertCode } = useContext(MarkdownContext);
+  const [copied, setCopied] = useState(false);
+  const [inserted, setInserted] = useState(false);
+  const preRef = useRef<HTMLPreElement>(null);
+
+  // Highlighting and math rendering change the DOM text, so the source is preferred
+  const getCode = () => {
+    const fromSource = node?.position ? codeFromSource(source, node.position) : null;
+    return fromSource || { code: preRef.current?.textContent || '', language: null };
+  };
+
+  const copyToClipboard = async () => {
+    try {
+      const { code } = getCode();
+
+      if (code) {
+        await navigator.clipboard.writeText(code);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }
+    } catch (err) {
+      console.error('Failed to copy text: ', err);
+    }
+  };
+
+  const insertCode = async () => {
+    const { code, language } = getCode();
+    if (code && onInsertCode && await onInsertCode(code, language)) {
+      setInserted(true);
+      setTimeout(() => setInserted(false), 2000);
+    }
+  };
+
+  return (
+    <div className="code-block-container">
+      <pre ref={preRef} {...props}>
+        {children}
+      </pre>
+      {onInsertCode && (
+        <button
+          className={`insert-button ${inserted ? 'inserted' : ''}`}
+          onClick={insertCode}
+          title="Replace the code in the page's editor"
+        >
+          {inserted ? '✓ Inserted!' : 'Insert'}
+        </button>
+      )}
+      <button 
+        className={`copy-button ${copied ? 'copied' : ''}`}
+        onClick={copyToClipboard}
+      >
+        {copied ? '✓ Copied!' : 'Copy'}
+      </button>
+    </div>
+  );
+};
+
+// Custom code component for inline code
+const CodeInline = (props: ComponentPropsWithoutRef<'code'> & ExtraProps) => {
+  // node is the syntax tree element react-markdown passes along, not an attribute
+  const attributes = { ...props };
+  delete attributes.node;
+  return <code {...attributes} />;
+};
+
+interface MarkdownProps {
+  children: string;
+  // Adds an Insert button to code blocks
+  onInsertCode?: (code: string, language: string | null) => Promise<boolean>;
+}
+
+// Markdown renderer shared by chat messages and solution cards
+function Markdown({ children, onInsertCode }: MarkdownProps) {
+  return (
+    <MarkdownContext.Provider value={{ source: children, onInsertCode }}>
+      <div className="simple-markdown">
+        <ReactMarkdown 
+          remarkPlugins={REMARK_PLUGINS}
+          rehypePlugins={REHYPE_PLUGINS}
+          components={{
+            pre: PreBlock,
+            code: CodeInline
+          }}
+        >
+          {children}
+        </ReactMarkdown>
+      </div>
+    </MarkdownContext.Provider>
+  );
+}
+
+export default Markdown
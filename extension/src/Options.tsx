@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react'
+import SettingsView from './SettingsView'
+import { loadSettings, type Settings } from './settings'
+
+// Options page: the same settings form as the side panel, full page
+function Options() {
+  const [settings, setSettings] = useState<Settings | null>(null)
+
+  useEffect(() => {
+    loadSettings().then(setSettings)
+  }, [])
+
+  return (
+    <div className="app-container">
+      <div className="header">
+        <h1>🐐 LeetGoat Settings</h1>
+      </div>
+      <div className="main-content">
+        {settings && (
+          <SettingsView settings={settings} onSave={setSettings} onClose={() => window.close()} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Options
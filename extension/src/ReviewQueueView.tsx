@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react'
+import Markdown from './Markdown'
+import { getSession, type Session } from './history'
+import {
+  deleteReviewCard,
+  formatInterval,
+  listDueCards,
+  nextDueDate,
+  REVIEW_GRADES,
+  saveReviewCard,
+  scheduleReview,
+  type ReviewCard,
+  type ReviewGrade
+} from './srs'
+
+interface ReviewQueueViewProps {
+  onOpen: (session: Session) => void;
+  onClose: () => void;
+  // Called after each graded or removed card so the due count stays current
+  onChange: () => void;
+}
+
+// The latest solve response in a session, which is what gets revealed
+const savedSolution = (session: Session | null | undefined): string | null => {
+  const message = session?.messages.slice().reverse().find(candidate => candidate.solution);
+  return message ? message.content : null;
+};
+
+// Today's due problems, one at a time: recall the approach, reveal, self-grade
+function ReviewQueueView({ onOpen, onClose, onChange }: ReviewQueueViewProps) {
+  const [cards, setCards] = useState<ReviewCard[]>([])
+  // undefined while the lookup is pending, null when the session was deleted
+  const [session, setSession] = useState<Session | null | undefined>(undefined)
+  const [recall, setRecall] = useState<string>('')
+  const [revealed, setRevealed] = useState(false)
+  const [nextDue, setNextDue] = useState<Date | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    listDueCards()
+      .then(setCards)
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const card = cards[0];
+
+  // Load the saved session behind the current card
+  useEffect(() => {
+    setSession(undefined);
+    setRecall('');
+    setRevealed(false);
+    let cancelled = false;
+    if (card) {
+      getSession(card.id).then(found => {
+        if (!cancelled) setSession(found);
+      });
+    } else if (!isLoading) {
+      nextDueDate().then(setNextDue);
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [card, isLoading])
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!card) return;
+    await saveReviewCard(scheduleReview(card, grade));
+    setCards(prev => prev.slice(1));
+    onChange();
+  };
+
+  const handleRemove = async () => {
+    if (!card) return;
+    await deleteReviewCard(card.id);
+    setCards(prev => prev.slice(1));
+    onChange();
+  };
+
+  const solution = savedSolution(session);
+
+  return (
+    <div className="history-view">
+      <div className="history-toolbar">
+        <div className="review-queue-count">
+          {cards.length > 0 ? `${cards.length} due today` : 'Reviews'}
+        </div>
+        <button onClick={onClose} className="secondary-button">
+          Back
+        </button>
+      </div>
+
+      {isLoading && <div className="empty-state-subtext">Loading reviews...</div>}
+
+      {!isLoading && !card && (
+        <div className="empty-state">
+          <div className="empty-state-icon">🎉</div>
+          <div className="empty-state-text">Nothing due for review</div>
+          <div className="empty-state-subtext">
+            {nextDue
+              ? `Next review on ${nextDue.toLocaleDateString()}`
+              : 'Solved problems are added here automatically'}
+          </div>
+        </div>
+      )}
+
+      {card && (
+        <div className="review-queue-card">
+          <div className="review-queue-card-header">
+            <div className="history-item-title">{card.title}</div>
+            <span className="complexity-badge" title="Technique">{card.technique}</span>
+          </div>
+
+          {session === undefined && (
+            <div className="empty-state-subtext">Loading the saved session...</div>
+          )}
+          {session === null && (
+            <div className="empty-state-subtext">The saved session for this problem was deleted.</div>
+          )}
+          {session && (
+            <details className="review-queue-card-problem" open={!revealed}>
+              <summary>Problem</summary>
+              <Markdown>{session.problemContext}</Markdown>
+            </details>
+          )}
+
+          {!revealed ? (
+            <>
+              <label className="review-queue-card-label" htmlFor="review-recall">
+                How would you solve it? Write down the approach, then check.
+              </label>
+              <textarea
+                id="review-recall"
+                value={recall}
+                onChange={(e) => setRecall(e.target.value)}
+                placeholder="Pattern, key idea, complexity..."
+                className="problem-review-input"
+                rows={4}
+              />
+              <button
+                onClick={() => setRevealed(true)}
+                disabled={!solution}
+                className="capture-button"
+              >
+                👀 Show solution
+              </button>
+            </>
+          ) : (
+            <>
+              {recall.trim() && (
+                <div className="review-queue-card-recall">
+                  <div className="review-queue-card-label">Your answer</div>
+                  <div className="review-queue-card-recall-text">{recall}</div>
+                </div>
+              )}
+              <div className="review-queue-card-solution">
+                <Markdown>{solution || ''}</Markdown>
+              </div>
+              <div className="review-queue-card-label">How well did you remember it?</div>
+              <div className="review-queue-grades">
+                {REVIEW_GRADES.map(grade => (
+                  <button
+                    key={grade.id}
+                    onClick={() => handleGrade(grade.id)}
+                    className={`review-queue-grade ${grade.id}`}
+                  >
+                    {grade.label}
+                    <span className="review-queue-interval">
+                      {formatInterval(scheduleReview(card, grade.id).interval)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="review-queue-card-footer">
+            {session && (
+              <button onClick={() => onOpen(session)} className="link-button">
+                Open session
+              </button>
+            )}
+            <button onClick={handleRemove} className="link-button">
+              Stop reviewing this problem
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReviewQueueView
@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import { DEFAULT_SETTINGS, PROVIDERS, saveSettings, type ConnectionMode, type ProviderId, type Settings } from './settings'
+import { DEFAULT_PROXY_URL } from './proxy'
+
+interface SettingsViewProps {
+  settings: Settings;
+  onSave: (settings: Settings) => void;
+  onClose: () => void;
+}
+
+// Provider, model and connection settings, shown in the side panel and on the options page
+function SettingsView({ settings, onSave, onClose }: SettingsViewProps) {
+  const [draft, setDraft] = useState<Settings>(settings)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string>('')
+
+  const provider = PROVIDERS.find(p => p.id === draft.provider) || PROVIDERS[0];
+
+  const handleProviderChange = (id: ProviderId) => {
+    const next = PROVIDERS.find(p => p.id === id) || PROVIDERS[0];
+    // Switching provider resets the model to one that provider understands
+    update({ provider: id, model: next.models[0] });
+  };
+
+  const update = (changes: Partial<Settings>) => {
+    setDraft({ ...draft, ...changes });
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    const cleaned = {
+      ...draft,
+      model: draft.model.trim() || provider.models[0],
+      proxyUrl: draft.proxyUrl.trim(),
+      localBaseUrl: draft.localBaseUrl.trim(),
+      contextBudget: Math.max(4000, Math.round(draft.contextBudget) || DEFAULT_SETTINGS.contextBudget)
+    };
+    try {
+      await saveSettings(cleaned);
+      setDraft(cleaned);
+      onSave(cleaned);
+      setSaved(true);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="settings-view">
+      <div className="settings-field">
+        <label className="settings-label" htmlFor="provider-select">Provider</label>
+        <select
+          id="provider-select"
+          className="settings-input"
+          value={draft.provider}
+          onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+        >
+          {PROVIDERS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="settings-field">
+        <label className="settings-label" htmlFor="model-input">Model</label>
+        <input
+          id="model-input"
+          className="settings-input"
+          list="model-suggestions"
+          value={draft.model}
+          onChange={(e) => update({ model: e.target.value })}
+        />
+        <datalist id="model-suggestions">
+          {provider.models.map(model => (
+            <option key={model} value={model} />
+          ))}
+        </datalist>
+      </div>
+
+      <div className="settings-field">
+        <label className="settings-label" htmlFor="connection-select">Connection</label>
+        <select
+          id="connection-select"
+          className="settings-input"
+          value={draft.connection}
+          onChange={(e) => update({ connection: e.target.value as ConnectionMode })}
+        >
+          <option value="proxy">Proxy server</option>
+          <option value="direct">Direct with my own key</option>
+        </select>
+      </div>
+
+      {draft.connection === 'proxy' && (
+        <div className="settings-field">
+          <label className="settings-label" htmlFor="proxy-url-input">Proxy URL</label>
+          <input
+            id="proxy-url-input"
+            className="settings-input"
+            value={draft.proxyUrl}
+            placeholder={DEFAULT_PROXY_URL}
+            onChange={(e) => update({ proxyUrl: e.target.value })}
+          />
+          <div className="settings-hint">
+            Leave empty for the shared server, or point it at your own deployment of <code>server.js</code>.
+            {draft.provider === 'local' && (
+              <> The local provider uses the server's <code>LOCAL_LLM_BASE_URL</code>.</>
+            )}
+          </div>
+        </div>
+      )}
+
+      {draft.connection === 'direct' && draft.provider !== 'local' && (
+        <div className="settings-field">
+          <label className="settings-label" htmlFor="api-key-input">{provider.label} API key</label>
+          <input
+            id="api-key-input"
+            type="password"
+            className="settings-input"
+            value={draft.apiKeys[draft.provider] || ''}
+            placeholder={draft.provider === 'anthropic' ? 'sk-ant-...' : 'sk-...'}
+            onChange={(e) => update({ apiKeys: { ...draft.apiKeys, [draft.provider]: e.target.value } })}
+            autoComplete="off"
+          />
+          <div className="settings-hint">
+            Stored only in this browser's extension storage and sent only to {provider.label}.
+            Screenshots still go to the proxy for OCR, and the solve, hint and follow-up prompts come from it.
+          </div>
+        </div>
+      )}
+
+      {draft.connection === 'direct' && draft.provider === 'local' && (
+        <div className="settings-field">
+          <label className="settings-label" htmlFor="local-url-input">Local server URL</label>
+          <input
+            id="local-url-input"
+            className="settings-input"
+            value={draft.localBaseUrl}
+            placeholder="http://localhost:11434/v1"
+            onChange={(e) => update({ localBaseUrl: e.target.value })}
+          />
+          <div className="settings-hint">
+            Any OpenAI-compatible endpoint (Ollama, llama.cpp, LM Studio). Enter the model name as your server knows it.
+            The solve, hint and follow-up prompts still come from the proxy.
+          </div>
+        </div>
+      )}
+
+      <div className="settings-field">
+        <label className="settings-label" htmlFor="context-budget-input">Context budget (tokens)</label>
+        <input
+          id="context-budget-input"
+          className="settings-input"
+          type="number"
+          min={4000}
+          step={1000}
+          value={draft.contextBudget}
+          onChange={(e) => update({ contextBudget: Number(e.target.value) })}
+        />
+        <div className="settings-hint">
+          Follow-up questions send at most this many tokens. Older turns are summarized to fit; the original solution is always kept. Lower means cheaper requests.
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-details">
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      <div className="problem-review-actions">
+        <button onClick={onClose} className="secondary-button">
+          Back
+        </button>
+        <button onClick={handleSave} className="capture-button">
+          {saved ? '✓ Saved' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SettingsView
@@ -0,0 +1,253 @@
+import { useState, type ReactNode } from 'react'
+import Markdown from './Markdown'
+import TestResults from './TestResults'
+import type { TestRun } from './runner'
+import type { Verification } from './verify'
+import { DIFFICULTIES, findPattern } from './taxonomy'
+import { findLanguage, LANGUAGES } from './languages'
+import type { CodeTranslation } from './translate'
+import { sectionToMarkdown, type Solution, type SolutionSection, type SolutionSectionId } from './solution'
+
+interface SolutionViewProps {
+  solution: Solution;
+  // Language the solution was requested in, for code blocks without one
+  language: string;
+  onRegenerate: (sectionId: SolutionSectionId) => void;
+  disabled: boolean;
+  // Set when the problem has examples the code can be checked against
+  onRunExamples?: () => void;
+  testRun?: TestRun;
+  running: boolean;
+  verification?: Verification;
+  onInsertCode?: (code: string, language: string | null) => Promise<boolean>;
+  translations?: CodeTranslation[];
+  onTranslate?: (language: string) => void;
+  // Language being translated to, null when idle
+  translating: string | null;
+}
+
+// Sections that start collapsed to keep the first view short
+const COLLAPSED_BY_DEFAULT: SolutionSectionId[] = ['example', 'similar'];
+
+const SectionCard = ({ section, onRegenerate, disabled, onInsertCode, body, children }: {
+  section: SolutionSection,
+  onRegenerate: () => void,
+  disabled: boolean,
+  onInsertCode?: (code: string, language: string | null) => Promise<boolean>,
+  // Replaces the rendered section body
+  body?: ReactNode,
+  children?: ReactNode
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(sectionToMarkdown(section));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy section: ', err);
+    }
+  };
+
+  // The header line becomes the card title, the body renders inside
+  const title = section.heading.replace(/^#{2,3}\s+/, '');
+
+  return (
+    <details className="solution-card" open={!COLLAPSED_BY_DEFAULT.includes(section.id)}>
+      <summary className="solution-card-header">
+        <span className="solution-card-title">
+          <Markdown>{title}</Markdown>
+        </span>
+        <span className="solution-card-actions">
+          <button
+            className="solution-card-button"
+            onClick={(e) => { e.preventDefault(); handleCopy(); }}
+            title="Copy this section as markdown"
+          >
+            {copied ? '✓' : '📋'}
+          </button>
+          <button
+            className="solution-card-button"
+            onClick={(e) => { e.preventDefault(); onRegenerate(); }}
+            disabled={disabled}
+            title="Regenerate this section"
+          >
+            🔄
+          </button>
+        </span>
+      </summary>
+      <div className="solution-card-body">
+        {body ?? <Markdown onInsertCode={onInsertCode}>{section.body}</Markdown>}
+        {children}
+      </div>
+    </details>
+  );
+};
+
+// Tabs for the original code and its translations, plus a picker for a new language
+const CodeTabs = ({ section, language, translations, onTranslate, translating, disabled, onInsertCode }: {
+  section: SolutionSection,
+  language: string,
+  translations: CodeTranslation[],
+  onTranslate?: (language: string) => void,
+  translating: string | null,
+  disabled: boolean,
+  onInsertCode?: (code: string, language: string | null) => Promise<boolean>
+}) => {
+  // null is the original section
+  const [active, setActive] = useState<string | null>(null);
+  const labelOf = (id: string) => findLanguage(id)?.label || id;
+  const available = LANGUAGES.filter(option =>
+    option.id !== findLanguage(language)?.id && !translations.some(translation => translation.language === option.id));
+  const shown = translations.find(translation => translation.language === (translating || active));
+
+  return (
+    <>
+      {(translations.length > 0 || onTranslate) && (
+        <div className="code-tabs">
+          <button
+            className={`code-tab ${!shown ? 'active' : ''}`}
+            onClick={() => setActive(null)}
+          >
+            {labelOf(language)}
+          </button>
+          {translations.map(translation => (
+            <button
+              key={translation.language}
+              className={`code-tab ${shown?.language === translation.language ? 'active' : ''}`}
+              onClick={() => setActive(translation.language)}
+              disabled={!!translating}
+            >
+              {labelOf(translation.language)}
+            </button>
+          ))}
+          {onTranslate && available.length > 0 && (
+            <select
+              className="code-tab-translate"
+              value=""
+              onChange={(e) => {
+                setActive(e.target.value);
+                onTranslate(e.target.value);
+              }}
+              disabled={disabled || !!translating}
+              title="Translate the code into another language, keeping the same algorithm"
+            >
+              <option value="">{translating ? `⏳ ${labelOf(translating)}...` : '🌐 Translate'}</option>
+              {available.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      {shown
+        ? <Markdown onInsertCode={onInsertCode}>{`\`\`\`${shown.language}\n${shown.source}\n\`\`\``}</Markdown>
+        : <Markdown onInsertCode={onInsertCode}>{section.body}</Markdown>}
+    </>
+  );
+};
+
+// Short log of the verify-and-fix rounds, collapsed unless verification failed
+const AttemptLog = ({ verification }: { verification: Verification }) => {
+  const rounds = verification.attempts.length;
+  const title = verification.verified
+    ? `✅ Verified${rounds > 1 ? ` after ${rounds - 1} fix${rounds > 2 ? 'es' : ''}` : ''}`
+    : `⚠️ Not verified${verification.stopped ? ' (stopped)' : ''}`;
+
+  return (
+    <details className="attempt-log" open={!verification.verified}>
+      <summary>
+        {title}
+        {verification.edgeCases > 0 && <span className="test-meta"> · includes {verification.edgeCases} generated edge cases</span>}
+      </summary>
+      <ol>
+        {verification.attempts.map((attempt, i) => (
+          <li key={i}>
+            {i === 0 ? 'First answer' : `Fix ${i}`}: {attempt.passed}/{attempt.total} passed
+            {attempt.error && <div className="test-error">{attempt.error.split('\n')[0]}</div>}
+            {attempt.failures.slice(0, 3).map((failure, j) => (
+              <div key={j} className="attempt-failure">{failure}</div>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+// A parsed solve response: complexity badges on top, one collapsible card per section
+function SolutionView({
+  solution,
+  language,
+  onRegenerate,
+  disabled,
+  onRunExamples,
+  testRun,
+  running,
+  verification,
+  onInsertCode,
+  translations,
+  onTranslate,
+  translating
+}: SolutionViewProps) {
+  const pattern = solution.pattern ? findPattern(solution.pattern) : undefined;
+  const difficulty = DIFFICULTIES.find(candidate => candidate.id === solution.difficulty);
+
+  return (
+    <div className="solution-view">
+      {(solution.timeComplexity || solution.spaceComplexity || pattern || difficulty) && (
+        <div className="complexity-badges">
+          {pattern && (
+            <span className="complexity-badge" title="Pattern">🏷️ {pattern.label}</span>
+          )}
+          {difficulty && (
+            <span className={`difficulty-badge ${difficulty.id}`} title="Difficulty">{difficulty.label}</span>
+          )}
+          {solution.timeComplexity && (
+            <span className="complexity-badge" title="Time complexity">⏱️ {solution.timeComplexity}</span>
+          )}
+          {solution.spaceComplexity && (
+            <span className="complexity-badge" title="Space complexity">📦 {solution.spaceComplexity}</span>
+          )}
+        </div>
+      )}
+      {solution.sections.map(section => (
+        <SectionCard
+          key={section.id}
+          section={section}
+          onRegenerate={() => onRegenerate(section.id)}
+          disabled={disabled}
+          onInsertCode={onInsertCode}
+          body={section.id === 'solution' && solution.code ? (
+            <CodeTabs
+              section={section}
+              language={solution.code.language || language}
+              translations={translations || []}
+              onTranslate={onTranslate}
+              translating={translating}
+              disabled={disabled}
+              onInsertCode={onInsertCode}
+            />
+          ) : undefined}
+        >
+          {section.id === 'solution' && verification && <AttemptLog verification={verification} />}
+          {section.id === 'solution' && solution.code && onRunExamples && (
+            <div className="run-examples">
+              <button
+                onClick={onRunExamples}
+                disabled={disabled || running}
+                className="secondary-button"
+              >
+                {running ? '⏳ Running...' : '▶️ Run examples'}
+              </button>
+              {testRun && !running && <TestResults run={testRun} />}
+            </div>
+          )}
+        </SectionCard>
+      ))}
+    </div>
+  );
+}
+
+export default SolutionView
@@ -0,0 +1,92 @@
+import type { ExampleResult, TestRun } from './runner'
+
+interface TestResultsProps {
+  run: TestRun;
+}
+
+// Line-by-line diff of expected and actual output
+const OutputDiff = ({ expected, actual }: { expected: string, actual: string }) => {
+  const expectedLines = expected.split('\n');
+  const actualLines = actual.split('\n');
+  const length = Math.max(expectedLines.length, actualLines.length);
+  const lines: { text: string, kind: 'same' | 'removed' | 'added' }[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const want = expectedLines[i];
+    const got = actualLines[i];
+    if (want === got) {
+      lines.push({ text: `  ${want}`, kind: 'same' });
+      continue;
+    }
+    if (want !== undefined) lines.push({ text: `- ${want}`, kind: 'removed' });
+    if (got !== undefined) lines.push({ text: `+ ${got}`, kind: 'added' });
+  }
+
+  return (
+    <pre className="test-diff">
+      {lines.map((line, i) => (
+        <div key={i} className={`test-diff-${line.kind}`}>{line.text}</div>
+      ))}
+    </pre>
+  );
+};
+
+const ExampleRow = ({ result, index }: { result: ExampleResult, index: number }) => {
+  return (
+    <details className={`test-example ${result.passed ? 'passed' : 'failed'}`} open={!result.passed}>
+      <summary>
+        {result.passed ? '✅' : '❌'} Example {index + 1}
+      </summary>
+      <div className="test-example-body">
+        <div className="test-label">Input</div>
+        <pre className="test-value">{result.input}</pre>
+        {result.error && (
+          <>
+            <div className="test-label">Error</div>
+            <pre className="test-value test-error">{result.error}</pre>
+          </>
+        )}
+        {!result.passed && result.actual !== null && (
+          <>
+            <div className="test-label">Expected (-) / Actual (+)</div>
+            <OutputDiff expected={result.expected} actual={result.actual} />
+          </>
+        )}
+        {result.passed && (
+          <>
+            <div className="test-label">Output</div>
+            <pre className="test-value">{result.actual}</pre>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+// Pass/fail summary and per-example diffs shown under the solution code
+function TestResults({ run }: TestResultsProps) {
+  const passed = run.results.filter(result => result.passed).length;
+
+  return (
+    <div className="test-results">
+      <div className="test-summary">
+        {run.results.length > 0 && (
+          <span className={passed === run.results.length ? 'test-pass' : 'test-fail'}>
+            {passed}/{run.results.length} examples passed
+          </span>
+        )}
+        <span className="test-meta">
+          {run.language} · {run.mode === 'stdio' ? 'stdin/stdout' : 'function call'}
+        </span>
+      </div>
+      {run.error && (
+        <pre className="test-value test-error">{run.error}</pre>
+      )}
+      {run.results.map((result, i) => (
+        <ExampleRow key={i} result={result} index={i} />
+      ))}
+    </div>
+  );
+}
+
+export default TestResults
@@ -0,0 +1,200 @@
+// Screenshot capture helpers for the OCR fallback
+
+import { sendTabMessage, type ActiveTab } from './tabs'
+import { getLocal, setLocal } from './storage'
+
+export type CaptureMode = 'auto' | 'fullPage' | 'region';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ScrollMetrics {
+  success: boolean;
+  scrollTop: number;
+  scrollHeight: number;
+  clientHeight: number;
+}
+
+interface ScrollResult {
+  success: boolean;
+  scrollTop: number;
+}
+
+interface RegionSelection {
+  success: boolean;
+  region: Region | null;
+  viewportWidth: number;
+}
+
+// Last region used on each site, keyed by hostname
+const SAVED_REGIONS_KEY = 'savedRegions';
+
+// Chrome rejects more than two captureVisibleTab calls per second
+const CAPTURE_INTERVAL_MS = 600;
+// Each step leaves this fraction of the viewport overlapping with the previous shot
+const SCROLL_OVERLAP = 0.2;
+// Upper bound so a never-ending feed cannot trigger dozens of OCR calls
+const MAX_FULL_PAGE_SHOTS = 8;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const captureVisibleTab = (): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    window.chrome.tabs.captureVisibleTab(
+      null,
+      { format: 'png', quality: 100 },
+      (dataUrl) => {
+        if (window.chrome.runtime.lastError) {
+          reject(new Error(window.chrome.runtime.lastError.message || 'Unknown error'));
+          return;
+        }
+        resolve(dataUrl);
+      }
+    );
+  });
+};
+
+/**
+ * Scrolls the tab's problem container from top to bottom through the content
+ * script and takes a screenshot at each step. The original scroll position is
+ * restored afterwards. Falls back to a single visible-area shot when the page
+ * cannot be scripted.
+ */
+export const captureFullPage = async (tabId: number): Promise<string[]> => {
+  const metrics = await sendTabMessage<ScrollMetrics>(tabId, { action: 'getScrollMetrics' });
+  if (!metrics || !metrics.success || metrics.scrollHeight <= metrics.clientHeight) {
+    return [await captureVisibleTab()];
+  }
+
+  const step = Math.max(1, Math.floor(metrics.clientHeight * (1 - SCROLL_OVERLAP)));
+  const maxTop = metrics.scrollHeight - metrics.clientHeight;
+  const total = Math.min(MAX_FULL_PAGE_SHOTS, Math.ceil(maxTop / step) + 1);
+  const shots: string[] = [];
+
+  try {
+    let lastTop = -1;
+    for (let i = 0; i < total; i++) {
+      const target = Math.min(i * step, maxTop);
+      const scrolled = await sendTabMessage<ScrollResult>(tabId, { action: 'scrollTo', top: target });
+      // Stop once the container refuses to scroll any further
+      if (!scrolled || scrolled.scrollTop === lastTop) break;
+      lastTop = scrolled.scrollTop;
+
+      if (shots.length > 0) {
+        await delay(CAPTURE_INTERVAL_MS);
+      }
+      shots.push(await captureVisibleTab());
+    }
+  } finally {
+    await sendTabMessage<ScrollResult>(tabId, { action: 'scrollTo', top: metrics.scrollTop });
+  }
+
+  return shots;
+};
+
+const cropImage = (dataUrl: string, region: Region, viewportWidth: number): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      // Screenshots are in device pixels, the region is in CSS pixels
+      const scale = image.naturalWidth / viewportWidth;
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(region.width * scale);
+      canvas.height = Math.round(region.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(
+        image,
+        region.x * scale, region.y * scale, canvas.width, canvas.height,
+        0, 0, canvas.width, canvas.height
+      );
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error('Failed to load screenshot'));
+    image.src = dataUrl;
+  });
+};
+
+const hostnameOf = (url?: string): string => {
+  try {
+    return url ? new URL(url).hostname : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Lets the user drag a rectangle over the page and returns the screenshot
+ * cropped to it, or null if the selection was cancelled. The chosen region is
+ * remembered per site and offered again on the next capture.
+ */
+export const captureRegion = async (tab: ActiveTab): Promise<string | null> => {
+  const host = hostnameOf(tab.url);
+  const savedRegions = (await getLocal<Record<string, Region>>(SAVED_REGIONS_KEY)) || {};
+
+  const selection = await sendTabMessage<RegionSelection>(tab.id, {
+    action: 'selectRegion',
+    savedRegion: savedRegions[host] || null
+  });
+  if (!selection) {
+    throw new Error('Region selection is not available on this page');
+  }
+  if (!selection.success || !selection.region) {
+    return null;
+  }
+
+  if (host) {
+    await setLocal(SAVED_REGIONS_KEY, { ...savedRegions, [host]: selection.region });
+  }
+
+  const screenshot = await captureVisibleTab();
+  return cropImage(screenshot, selection.region, selection.viewportWidth);
+};
+
+const normalizeLine = (line: string) => line.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Number of leading lines of `next` that duplicate the tail of `previous`
+const findOverlap = (previous: string[], next: string[]): number => {
+  const prev = previous.map(normalizeLine);
+  const cur = next.map(normalizeLine);
+
+  // The first line of a shot may be cut in half by the viewport edge, so also
+  // try matching after skipping it (requiring a longer match to avoid false hits)
+  for (const skip of [0, 1]) {
+    const minMatch = skip === 0 ? 1 : 2;
+    for (let k = Math.min(prev.length, cur.length - skip); k >= minMatch; k--) {
+      let matches = true;
+      for (let j = 0; j < k; j++) {
+        if (prev[prev.length - k + j] !== cur[skip + j]) {
+          matches = false;
+          break;
+        }
+      }
+      if (matches && cur.slice(skip, skip + k).some(line => line !== '')) {
+        return skip + k;
+      }
+    }
+  }
+  return 0;
+};
+
+/**
+ * Merges the OCR text of consecutive overlapping screenshots, dropping the lines
+ * each shot repeats from the end of the previous one.
+ */
+export const mergeOcrTexts = (texts: string[]): string => {
+  const merged: string[] = [];
+  for (const text of texts) {
+    const lines = text.trim().split('\n');
+    const overlap = merged.length > 0 ? findOverlap(merged, lines) : 0;
+    merged.push(...lines.slice(overlap));
+  }
+  return merged.join('\n');
+};
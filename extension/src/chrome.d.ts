@@ -0,0 +1,78 @@
+// Type definitions for the subset of the Chrome extension API used by the side panel
+interface Window {
+  chrome: {
+    tabs: {
+      captureVisibleTab: (
+        windowId: number | null,
+        options: { format: string, quality: number },
+        callback: (dataUrl: string) => void
+      ) => void;
+      query: (
+        queryInfo: { active: boolean, currentWindow: boolean },
+        callback: (tabs: { id: number, url?: string }[]) => void
+      ) => void;
+      executeScript: (
+        tabId: number,
+        details: { code: string } | { file: string },
+        callback?: (result: unknown[]) => void
+      ) => void;
+      sendMessage: (
+        tabId: number,
+        message: unknown,
+        callback?: (response: unknown) => void
+      ) => void;
+    },
+    scripting: {
+      executeScript: (
+        injection: {
+          target: { tabId: number },
+          files?: string[],
+          func?: (...args: never[]) => unknown,
+          args?: unknown[],
+          world?: 'ISOLATED' | 'MAIN'
+        },
+        callback?: (results?: { result?: unknown }[]) => void
+      ) => void;
+    },
+    storage: {
+      local: {
+        get: (
+          keys: string | string[],
+          callback: (items: Record<string, unknown>) => void
+        ) => void;
+        set: (
+          items: Record<string, unknown>,
+          callback?: () => void
+        ) => void;
+      },
+      onChanged: {
+        addListener: (
+          callback: (
+            changes: Record<string, { oldValue?: unknown, newValue?: unknown }>,
+            areaName: string
+          ) => void
+        ) => void;
+      }
+    },
+    runtime: {
+      lastError?: {
+        message?: string;
+      },
+      sendMessage: (
+        message: unknown,
+        callback?: (response: unknown) => void
+      ) => void;
+      onMessage: {
+        addListener: (
+          callback: (
+            message: unknown,
+            sender: { id?: string; tab?: { id: number; url?: string }; url?: string },
+            sendResponse: (response?: unknown) => void
+          ) => void
+        ) => void;
+      },
+      getURL: (path: string) => string;
+      openOptionsPage: () => void;
+    }
+  }
+}
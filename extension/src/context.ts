@@ -0,0 +1,147 @@
+// Keeps follow-up requests inside a token budget. The original solution and
+// pinned messages are always sent verbatim, the newest turns fill the rest of
+// the budget, and older turns are folded into a short summary (the memory).
+
+import { requestTaskCompletion, type ChatMessage } from './llm'
+import type { Settings } from './settings'
+import type { Message } from './types'
+
+// Reply size requested for follow-up answers
+export const FOLLOW_UP_REPLY_TOKENS = 1500;
+// Role and separator tokens the API adds per message
+const MESSAGE_OVERHEAD = 4;
+// The follow-up template's own text around the problem (server/templates.js),
+// including the practice opener
+const TEMPLATE_TOKENS = 400;
+
+export interface ConversationMemory {
+  summary: string;
+  // Messages already folded into the summary
+  coveredIds: string[];
+}
+
+export interface ContextPlan {
+  // Turns to send as the follow-up's history
+  history: ChatMessage[];
+  // Estimated prompt tokens, without the reply
+  usedTokens: number;
+  // Prompt tokens available once the reply is reserved
+  budget: number;
+  // Older turns that did not fit and are not in the memory yet
+  toFold: Message[];
+  pinnedCount: number;
+}
+
+interface PlanOptions {
+  // The problem text, which the server's template sends along with every follow-up
+  problemText: string;
+  history: Message[];
+  // The new question, empty when only measuring
+  question: string;
+  memory: ConversationMemory | null;
+  budget: number;
+}
+
+/**
+ * Rough token count: about four characters per token for English and code
+ * with the tokenizers in use. Close enough for budgeting without shipping a
+ * tokenizer per provider.
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
+
+const messageTokens = (message: ChatMessage) => estimateTokens(message.content) + MESSAGE_OVERHEAD;
+
+// Context windows by model name prefix, most specific first
+const CONTEXT_WINDOWS: { prefix: string, tokens: number }[] = [
+  { prefix: 'gpt-4.1', tokens: 1000000 },
+  { prefix: 'gpt-4o', tokens: 128000 },
+  { prefix: 'o3', tokens: 200000 },
+  { prefix: 'o4', tokens: 200000 },
+  { prefix: 'claude', tokens: 200000 }
+];
+// Local models are often served with a small context
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export const contextWindowFor = (model: string): number => {
+  const name = model.toLowerCase();
+  return CONTEXT_WINDOWS.find(entry => name.startsWith(entry.prefix))?.tokens || DEFAULT_CONTEXT_WINDOW;
+};
+
+// The user's budget, capped by what the model can take, minus the reply
+export const promptBudget = (settings: Settings): number => {
+  return Math.min(settings.contextBudget, contextWindowFor(settings.model)) - FOLLOW_UP_REPLY_TOKENS;
+};
+
+// The first solve response stays verbatim no matter how long the thread gets
+export const isPinned = (message: Message, history: Message[]): boolean => {
+  return !!message.pinned || message.id === history.find(candidate => candidate.solution)?.id;
+};
+
+/**
+ * Picks what to send. Pinned messages and the memory always go, then the
+ * newest turns as long as they fit; the first turn that does not fit and
+ * everything older ends up in `toFold`. The server wraps the result in the
+ * follow-up template, which is counted from the problem text.
+ */
+export const planContext = ({ problemText, history, question, memory, budget }: PlanOptions): ContextPlan => {
+  const covered = new Set(memory?.coveredIds || []);
+  const turns = history.filter(message => message.type !== 'system');
+  const pinned = turns.filter(message => isPinned(message, turns));
+  const toChat = (message: Message): ChatMessage => ({ role: message.type === 'user' ? 'user' : 'assistant', content: message.content });
+
+  const templateTokens = TEMPLATE_TOKENS + estimateTokens(problemText) + estimateTokens(memory?.summary || '');
+  const fixed = [...pinned.map(toChat), ...(question ? [{ role: 'user', content: question } as ChatMessage] : [])];
+  let available = budget - templateTokens - fixed.reduce((sum, message) => sum + messageTokens(message), 0);
+
+  const kept = new Set<string>();
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const message = turns[i];
+    if (pinned.includes(message) || covered.has(message.id)) continue;
+    const tokens = messageTokens(toChat(message));
+    // Stop at the first turn that does not fit so the kept turns stay contiguous
+    if (tokens > available) break;
+    kept.add(message.id);
+    available -= tokens;
+  }
+
+  const sent = turns.filter(message => pinned.includes(message) || kept.has(message.id)).map(toChat);
+  const questionTokens = question ? messageTokens({ role: 'user', content: question }) : 0;
+  return {
+    history: sent,
+    usedTokens: templateTokens + sent.reduce((sum, message) => sum + messageTokens(message), 0) + questionTokens,
+    budget,
+    toFold: turns.filter(message => !pinned.includes(message) && !kept.has(message.id) && !covered.has(message.id)),
+    pinnedCount: pinned.length
+  };
+};
+
+/**
+ * Folds older turns into the memory, merging with the existing summary.
+ * Returns the memory unchanged when the request fails, so the turns are only
+ * left out of this request.
+ */
+export const foldIntoMemory = async (
+  settings: Settings,
+  memory: ConversationMemory | null,
+  turns: Message[]
+): Promise<ConversationMemory | null> => {
+  try {
+    const response = await requestTaskCompletion(settings, 'summarize', {
+      memory: memory?.summary || null,
+      history: turns.map(message => ({ role: message.type === 'user' ? 'user' : 'assistant', content: message.content }))
+    }, { stream: false });
+    const data = await response.json();
+    const summary: string = (data.choices?.[0]?.message?.content || '').trim();
+    if (!summary) return memory;
+
+    return {
+      summary,
+      coveredIds: [...(memory?.coveredIds || []), ...turns.map(message => message.id)]
+    };
+  } catch (error) {
+    console.error('Failed to summarize older turns: ', error);
+    return memory;
+  }
+};
@@ -0,0 +1,231 @@
+// Reads and writes the code editor on the problem page. Monaco and CodeMirror
+// only render the visible lines, so the editors' own APIs are used from the
+// page's JavaScript world, falling back to contentScript.js (rendered lines for
+// reading, a synthetic paste for writing) when that is not possible.
+
+import { findLanguage } from './languages'
+import { sendTabMessage } from './tabs'
+
+export type EditorKind = 'monaco' | 'codemirror' | 'ace' | 'dom';
+
+export interface EditorCode {
+  code: string;
+  // The editor's language id (e.g. "python", "cpp"), when it reports one
+  language: string | null;
+  editor: EditorKind;
+}
+
+export interface InsertResult {
+  success: boolean;
+  // Set when the editor is in a different language than the code
+  editorLanguage?: string;
+  error?: string;
+}
+
+// Just the parts of each editor API that are used below
+interface MonacoModel {
+  getValue: () => string;
+  getLanguageId?: () => string;
+  getModeId?: () => string;
+  getFullModelRange: () => unknown;
+  setValue: (value: string) => void;
+}
+
+interface MonacoEditor {
+  getModel: () => MonacoModel | null;
+  executeEdits: (source: string, edits: { range: unknown, text: string }[]) => boolean;
+  pushUndoStop: () => boolean;
+}
+
+interface PageWindow {
+  monaco?: {
+    editor: {
+      getEditors?: () => MonacoEditor[];
+      getModels: () => MonacoModel[];
+    }
+  };
+  ace?: {
+    edit: (element: Element) => {
+      getValue: () => string,
+      setValue: (value: string, cursorPosition?: number) => void,
+      session: { getMode: () => { $id?: string } }
+    };
+  };
+}
+
+interface CodeMirror6Element extends HTMLElement {
+  cmView?: {
+    view?: {
+      state: { doc: { toString: () => string, length: number } },
+      dispatch: (transaction: { changes: { from: number, to: number, insert: string } }) => void
+    }
+  };
+}
+
+interface CodeMirror5Element extends Element {
+  CodeMirror?: {
+    getValue: () => string,
+    setValue: (value: string) => void,
+    getOption: (name: string) => unknown
+  };
+}
+
+/**
+ * Runs inside the page (world: 'MAIN'), so it is serialized on its own and
+ * must not reference anything outside its body.
+ */
+const readEditorInPage = (): EditorCode | null => {
+  const page = window as unknown as PageWindow;
+
+  if (page.monaco?.editor) {
+    const models = page.monaco.editor.getEditors
+      ? page.monaco.editor.getEditors().map(editor => editor.getModel()).filter((model): model is MonacoModel => !!model)
+      : page.monaco.editor.getModels();
+    const languageOf = (model: MonacoModel) => (model.getLanguageId ? model.getLanguageId() : model.getModeId?.()) || null;
+    // Pages like LeetCode also use Monaco for test input, the solution is the longest code model
+    const model = models
+      .filter(candidate => languageOf(candidate) !== 'plaintext')
+      .sort((a, b) => b.getValue().length - a.getValue().length)[0];
+    if (model) {
+      return { code: model.getValue(), language: languageOf(model), editor: 'monaco' };
+    }
+  }
+
+  const cm6 = document.querySelector<CodeMirror6Element>('.cm-content');
+  if (cm6?.cmView?.view) {
+    return { code: cm6.cmView.view.state.doc.toString(), language: cm6.dataset.language || null, editor: 'codemirror' };
+  }
+
+  const cm5 = document.querySelector<CodeMirror5Element>('.CodeMirror');
+  if (cm5?.CodeMirror) {
+    const mode = cm5.CodeMirror.getOption('mode');
+    const language = typeof mode === 'string' ? mode : (mode as { name?: string } | null)?.name || null;
+    return { code: cm5.CodeMirror.getValue(), language, editor: 'codemirror' };
+  }
+
+  const aceElement = document.querySelector('.ace_editor');
+  if (page.ace && aceElement) {
+    const editor = page.ace.edit(aceElement);
+    const modeId = editor.session.getMode().$id || '';
+    return { code: editor.getValue(), language: modeId.split('/').pop() || null, editor: 'ace' };
+  }
+
+  return null;
+};
+
+/**
+ * Also runs inside the page. Replaces the whole editor content through the
+ * editor's API so undo and syntax highlighting keep working, and reports the
+ * editor's language. Returns null when no supported editor is found.
+ */
+const writeEditorInPage = (code: string): { language: string | null } | null => {
+  const page = window as unknown as PageWindow;
+
+  if (page.monaco?.editor) {
+    const languageOf = (model: MonacoModel) => (model.getLanguageId ? model.getLanguageId() : model.getModeId?.()) || null;
+    const editors = (page.monaco.editor.getEditors?.() || [])
+      .filter(editor => editor.getModel() && languageOf(editor.getModel()!) !== 'plaintext')
+      .sort((a, b) => b.getModel()!.getValue().length - a.getModel()!.getValue().length);
+    if (editors.length > 0) {
+      const model = editors[0].getModel()!;
+      editors[0].executeEdits('leetgoat', [{ range: model.getFullModelRange(), text: code }]);
+      editors[0].pushUndoStop();
+      return { language: languageOf(model) };
+    }
+    const model = page.monaco.editor.getModels().find(candidate => languageOf(candidate) !== 'plaintext');
+    if (model) {
+      model.setValue(code);
+      return { language: languageOf(model) };
+    }
+  }
+
+  const cm6 = document.querySelector<CodeMirror6Element>('.cm-content');
+  if (cm6?.cmView?.view) {
+    const view = cm6.cmView.view;
+    view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: code } });
+    return { language: cm6.dataset.language || null };
+  }
+
+  const cm5 = document.querySelector<CodeMirror5Element>('.CodeMirror');
+  if (cm5?.CodeMirror) {
+    cm5.CodeMirror.setValue(code);
+    const mode = cm5.CodeMirror.getOption('mode');
+    return { language: typeof mode === 'string' ? mode : (mode as { name?: string } | null)?.name || null };
+  }
+
+  const aceElement = document.querySelector('.ace_editor');
+  if (page.ace && aceElement) {
+    const editor = page.ace.edit(aceElement);
+    editor.setValue(code, 1);
+    return { language: (editor.session.getMode().$id || '').split('/').pop() || null };
+  }
+
+  return null;
+};
+
+const runInPage = <T, A extends unknown[]>(tabId: number, func: (...args: A) => T, ...args: A): Promise<T | null> => {
+  return new Promise((resolve) => {
+    window.chrome.scripting.executeScript({ target: { tabId }, world: 'MAIN', func: func as (...args: never[]) => unknown, args }, (results) => {
+      // lastError is set for pages that cannot be scripted
+      if (window.chrome.runtime.lastError || !results || results.length === 0) {
+        resolve(null);
+        return;
+      }
+      resolve((results[0].result as T) ?? null);
+    });
+  });
+};
+
+interface EditorCodeResponse extends EditorCode {
+  success: boolean;
+}
+
+/**
+ * Returns the code in the page editor, or null when the page has no editor
+ * or it is empty.
+ */
+export const readEditorCode = async (tabId: number): Promise<EditorCode | null> => {
+  const fromPage = await runInPage(tabId, readEditorInPage);
+  if (fromPage && fromPage.code.trim()) {
+    return fromPage;
+  }
+
+  const fromDom = await sendTabMessage<EditorCodeResponse>(tabId, { action: 'getEditorCode' });
+  if (!fromDom || !fromDom.success || !fromDom.code || !fromDom.code.trim()) {
+    return null;
+  }
+  return { code: fromDom.code, language: fromDom.language, editor: 'dom' };
+};
+
+interface InsertResponse {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Replaces the code in the page editor. The editor language is checked first
+ * and nothing is written when it is known and differs from `language`.
+ */
+export const insertEditorCode = async (tabId: number, code: string, language: string): Promise<InsertResult> => {
+  const fromPage = await runInPage(tabId, readEditorInPage);
+  const fromDom = fromPage ? null : await sendTabMessage<EditorCodeResponse>(tabId, { action: 'getEditorCode' });
+  if (!fromPage && !fromDom?.success) {
+    return { success: false, error: 'No code editor found on this page.' };
+  }
+
+  const reported = fromPage ? fromPage.language : fromDom?.language;
+  const editorLanguage = reported ? findLanguage(reported) : null;
+  if (editorLanguage && editorLanguage.id !== findLanguage(language)?.id) {
+    return { success: false, editorLanguage: editorLanguage.label };
+  }
+
+  if (fromPage && await runInPage(tabId, writeEditorInPage, code)) {
+    return { success: true };
+  }
+
+  const response = await sendTabMessage<InsertResponse>(tabId, { action: 'insertEditorCode', code });
+  if (!response || !response.success) {
+    return { success: false, error: response?.error || 'Could not write to the code editor on this page.' };
+  }
+  return { success: true };
+};
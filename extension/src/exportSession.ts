@@ -0,0 +1,216 @@
+// Exports a solved session as a Markdown file, a printable HTML page (saved as
+// PDF from the print dialog) or an Anki deck in CSV form.
+
+import { createElement } from 'react'
+import ReactMarkdown from 'react-markdown'
+import highlightCss from 'highlight.js/styles/github.css?inline'
+import { REHYPE_PLUGINS, REMARK_PLUGINS } from './markdownPlugins'
+import { sectionToMarkdown, type Solution } from './solution'
+import { DIFFICULTIES, findPattern } from './taxonomy'
+import type { Message } from './types'
+
+// Same version as the katex package, the stylesheet's fonts load from the CDN
+const KATEX_CSS_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.22/dist/katex.min.css';
+
+export interface ExportableSession {
+  title: string;
+  url: string;
+  language: string;
+  problemContext: string;
+  messages: Message[];
+}
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'anki';
+
+export const EXPORT_FORMATS: { id: ExportFormat, label: string }[] = [
+  { id: 'markdown', label: '📝 Markdown (.md)' },
+  { id: 'html', label: '🌐 HTML page (.html)' },
+  { id: 'pdf', label: '🖨️ Print / save as PDF' },
+  { id: 'anki', label: '🗂️ Anki deck (.csv)' }
+];
+
+const latestSolution = (session: ExportableSession): Solution | null => {
+  const message = session.messages.slice().reverse().find(candidate => candidate.solution);
+  return message?.solution || null;
+};
+
+// "Two Sum (LeetCode)" -> "two-sum-leetcode"
+const fileSlug = (title: string): string => {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'leetgoat-session';
+};
+
+/**
+ * The whole conversation as Markdown. Math stays as `$...$` so KaTeX aware
+ * renderers (Obsidian, GitHub, most wikis) show it the same way.
+ */
+export const sessionToMarkdown = (session: ExportableSession): string => {
+  const solution = latestSolution(session);
+  const pattern = solution?.pattern ? findPattern(solution.pattern) : undefined;
+  const difficulty = DIFFICULTIES.find(candidate => candidate.id === solution?.difficulty);
+  const meta = [
+    session.url && `[Source](${session.url})`,
+    `Language: ${session.language}`,
+    pattern && `Pattern: ${pattern.label}`,
+    difficulty && `Difficulty: ${difficulty.label}`
+  ].filter(Boolean).join(' · ');
+
+  const conversation = session.messages
+    .filter(message => message.type !== 'system')
+    .map(message => {
+      if (message.solution) {
+        return message.solution.sections.map(sectionToMarkdown).join('\n\n');
+      }
+      if (message.type === 'user') {
+        return message.content.split('\n').map(line => `> ${line}`).join('\n');
+      }
+      return message.content;
+    });
+
+  return [
+    `# ${session.title}`,
+    meta,
+    '## 📄 Problem',
+    session.problemContext,
+    ...conversation
+  ].join('\n\n') + '\n';
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const PRINT_CSS = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 860px; margin: 32px auto; padding: 0 24px; color: #1f2328; line-height: 1.6; }
+h1 { border-bottom: 2px solid #d21b1b; padding-bottom: 8px; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 32px; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px; overflow-x: auto; page-break-inside: avoid; }
+code { font-family: 'SF Mono', Monaco, Consolas, monospace; font-size: 13px; }
+:not(pre) > code { background: #f6f8fa; padding: 2px 4px; border-radius: 3px; }
+blockquote { border-left: 4px solid #d0d7de; margin: 0; padding: 0 16px; color: #57606a; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d0d7de; padding: 4px 8px; }
+@media print { body { margin: 0; } a { color: inherit; } }
+`;
+
+/**
+ * A standalone HTML page rendered with the same markdown plugins as the side
+ * panel, in a light theme that prints well.
+ */
+export const sessionToHtml = async (session: ExportableSession): Promise<string> => {
+  // Only the export needs the server renderer, keep it out of the main bundle
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const body = renderToStaticMarkup(
+    createElement(ReactMarkdown, { remarkPlugins: REMARK_PLUGINS, rehypePlugins: REHYPE_PLUGINS }, sessionToMarkdown(session))
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.title)}</title>
+<link rel="stylesheet" href="${KATEX_CSS_URL}">
+<style>${highlightCss}${PRINT_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+const csvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// Anki fields render as HTML
+const ankiHtml = (markdown: string): string => {
+  return escapeHtml(markdown.trim())
+    .replace(/\*\*([^*]+)\*\*/g, '<b>$1</b>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\n/g, '<br>');
+};
+
+/**
+ * Anki import file with Front, Back and Tags columns: one card for the key
+ * idea, one per giveaway quote and one for the complexity. The header lines
+ * tell Anki (2.1.55+) the separator and that fields contain HTML.
+ */
+export const sessionToAnkiCsv = (session: ExportableSession): string | null => {
+  const solution = latestSolution(session);
+  if (!solution) return null;
+
+  const pattern = solution.pattern ? findPattern(solution.pattern) : undefined;
+  const tags = ['leetgoat', pattern && `pattern::${pattern.id}`, solution.difficulty && `difficulty::${solution.difficulty}`]
+    .filter(Boolean)
+    .join(' ');
+  const patternLine = pattern ? `<b>Pattern:</b> ${escapeHtml(pattern.label)}<br>` : '';
+  const title = escapeHtml(session.title);
+  const cards: [string, string][] = [];
+
+  // The summary ends with the pattern, which is the answer to the first card
+  const summary = solution.summary.replace(/^.*Pattern\*{0,2}\s*:.*$/im, '');
+  cards.push([
+    `<b>${title}</b><br><br>${ankiHtml(summary)}<br><br>What is the approach?`,
+    `${patternLine}${solution.code ? `<pre>${escapeHtml(solution.code.source)}</pre>` : ''}`
+  ]);
+
+  const giveaways = solution.sections.find(section => section.id === 'giveaways');
+  for (const quote of solution.giveaways) {
+    const start = giveaways?.body.indexOf(quote) ?? -1;
+    // The explanation is the text after the quote, up to the next quote
+    const explanation = start >= 0
+      ? giveaways!.body.slice(start + quote.length).split(/\n\s*[-*]\s+\*\*/)[0].replace(/^["*\s]+/, '').replace(/^\s*[-*]\s+/gm, '')
+      : '';
+    cards.push([
+      `<b>${title}</b><br><br>Which technique does this hint at?<br><br><i>"${escapeHtml(quote)}"</i>`,
+      `${patternLine}${ankiHtml(explanation)}`
+    ]);
+  }
+
+  if (solution.timeComplexity || solution.spaceComplexity) {
+    cards.push([
+      `<b>${title}</b><br><br>Time and space complexity of the optimal solution?`,
+      `Time: ${escapeHtml(solution.timeComplexity || '?')}<br>Space: ${escapeHtml(solution.spaceComplexity || '?')}`
+    ]);
+  }
+
+  const rows = cards.map(([front, back]) => [front, back, tags].map(csvField).join(','));
+  return ['#separator:Comma', '#html:true', '#tags column:3', ...rows].join('\n') + '\n';
+};
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Opens the HTML in a new window and shows the print dialog, where "Save as PDF" is available
+const printHtml = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked.');
+  }
+  printWindow.document.write(html);
+  printWindow.document.close();
+  // Give the KaTeX stylesheet a moment to load before printing
+  printWindow.addEventListener('load', () => printWindow.print());
+};
+
+export const exportSession = async (session: ExportableSession, format: ExportFormat): Promise<void> => {
+  const slug = fileSlug(session.title);
+
+  if (format === 'markdown') {
+    downloadFile(`${slug}.md`, sessionToMarkdown(session), 'text/markdown');
+  } else if (format === 'html') {
+    downloadFile(`${slug}.html`, await sessionToHtml(session), 'text/html');
+  } else if (format === 'pdf') {
+    printHtml(await sessionToHtml(session));
+  } else {
+    const csv = sessionToAnkiCsv(session);
+    if (!csv) {
+      throw new Error('Only solved problems can be exported as Anki cards.');
+    }
+    downloadFile(`${slug}-anki.csv`, csv, 'text/csv');
+  }
+};
@@ -0,0 +1,15 @@
+// Follow-up conversation plumbing. The follow-up prompt itself comes from the
+// followup template in server/templates.js.
+
+import type { ChatMessage } from './llm'
+import type { Message } from './types'
+
+// The chat so far as LLM turns; system notices are UI-only
+export const toChatHistory = (messages: Message[]): ChatMessage[] => {
+  return messages
+    .filter(msg => msg.type !== 'system')
+    .map(msg => ({
+      role: msg.type === 'user' ? 'user' : 'assistant',
+      content: msg.content
+    }));
+};
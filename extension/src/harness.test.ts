@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RESULT_MARKER,
+  detectMode,
+  parseArguments,
+  parseHarnessOutput,
+  parseValue,
+  stdoutMatches,
+  valuesEqual
+} from './harness'
+
+describe('parseArguments', () => {
+  it('splits LeetCode style assignments outside brackets and strings', () => {
+    expect(parseArguments('nums = [2,7,11,15], target = 9')).toEqual([
+      { name: 'nums', value: '[2,7,11,15]' },
+      { name: 'target', value: '9' }
+    ]);
+    expect(parseArguments('s = "a, b = c"\nk = 2')).toEqual([
+      { name: 's', value: '"a, b = c"' },
+      { name: 'k', value: '2' }
+    ]);
+  });
+
+  it('returns null for raw stdin', () => {
+    expect(parseArguments('3\n1 2 3')).toBeNull();
+    expect(parseArguments('')).toBeNull();
+  });
+});
+
+describe('parseValue', () => {
+  it('reads JSON and Python literals', () => {
+    expect(parseValue(' [1, 2] ')).toEqual([1, 2]);
+    expect(parseValue("[True, None, 'x']")).toEqual([true, null, 'x']);
+    expect(parseValue('abc')).toBe('abc');
+  });
+});
+
+describe('detectMode', () => {
+  it('calls a function only when every example is a list of assignments', () => {
+    expect(detectMode([{ input: 'n = 3', output: '6' }])).toBe('function');
+    expect(detectMode([{ input: 'n = 3', output: '6' }, { input: '3', output: '6' }])).toBe('stdio');
+  });
+});
+
+describe('parseHarnessOutput', () => {
+  it('collects the marked lines and skips everything else', () => {
+    const stdout = [
+      'debug print',
+      `${RESULT_MARKER} {"index": 0, "actual": [0, 1]}`,
+      `prefix ${RESULT_MARKER}{"index": 1, "error": "IndexError"}`,
+      `${RESULT_MARKER} {"index": 2, "actual": [`,
+      `${RESULT_MARKER} {"actual": 3}`
+    ].join('\n');
+
+    expect(parseHarnessOutput(stdout)).toEqual([
+      { index: 0, actual: [0, 1] },
+      { index: 1, error: 'IndexError' }
+    ]);
+  });
+});
+
+describe('valuesEqual', () => {
+  it('compares numbers within a tolerance and strings loosely', () => {
+    expect(valuesEqual(0.1 + 0.2, 0.3)).toBe(true);
+    expect(valuesEqual(1, 2)).toBe(false);
+    expect(valuesEqual('abc', ' abc')).toBe(true);
+    expect(valuesEqual({ a: [1, 2] }, { a: [1, 2] })).toBe(true);
+  });
+
+  it('ignores the order of top level arrays only when asked to', () => {
+    expect(valuesEqual([[1, 2], [3]], [[3], [1, 2]])).toBe(false);
+    expect(valuesEqual([[1, 2], [3]], [[3], [1, 2]], true)).toBe(true);
+    expect(valuesEqual([[2, 1]], [[1, 2]], true)).toBe(false);
+  });
+});
+
+describe('stdoutMatches', () => {
+  it('ignores whitespace and tolerates rounding', () => {
+    expect(stdoutMatches('1 2\n3\n', '1 2 3')).toBe(true);
+    expect(stdoutMatches('0.3333333', '0.333333')).toBe(true);
+    expect(stdoutMatches('1 2', '1 2 3')).toBe(false);
+  });
+});
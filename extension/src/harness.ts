@@ -0,0 +1,262 @@
+// Builds test harnesses around a generated solution and checks their output
+// against the problem's examples. Two shapes of examples are supported:
+// LeetCode-style "nums = [2,7], target = 9" calls into a function, and
+// Codeforces-style raw stdin/stdout.
+
+import { RESULT_MARKER } from '../../server/templates.js'
+import type { ProblemExample } from './problem'
+
+export type HarnessMode = 'function' | 'stdio';
+
+// Every harness prints one marked JSON line per example. The harness template
+// in server/templates.js asks model-written harnesses for the same.
+export { RESULT_MARKER };
+
+export interface HarnessResult {
+  index: number;
+  actual?: unknown;
+  error?: string;
+}
+
+interface Argument {
+  name: string;
+  value: string;
+}
+
+// Splits at commas and newlines outside brackets and string literals
+const splitTopLevel = (input: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (input[++i] ?? '');
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if ('[{('.includes(char)) {
+      depth++;
+    } else if (']})'.includes(char)) {
+      depth--;
+    } else if ((char === ',' || char === '\n') && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.filter(part => part.trim());
+};
+
+/**
+ * Parses "nums = [2,7,11,15], target = 9" into named arguments. Returns null
+ * when the input is not a list of assignments, e.g. raw stdin.
+ */
+export const parseArguments = (input: string): Argument[] | null => {
+  const args: Argument[] = [];
+
+  for (const part of splitTopLevel(input)) {
+    const match = /^\s*([A-Za-z_]\w*)\s*=\s*([\s\S]*)$/.exec(part);
+    if (match) {
+      args.push({ name: match[1], value: match[2].trim() });
+    } else if (args.length > 0) {
+      // A comma inside an unbracketed value, keep it with the previous argument
+      args[args.length - 1].value += `,${part}`;
+    } else {
+      return null;
+    }
+  }
+  return args.length > 0 ? args : null;
+};
+
+/**
+ * Reads a literal from an example as JSON, accepting Python spellings too.
+ * Anything that still does not parse is kept as a string.
+ */
+export const parseValue = (raw: string): unknown => {
+  const text = raw.trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to the Python spellings
+  }
+
+  const pythonic = text
+    .replace(/\bTrue\b/g, 'true')
+    .replace(/\bFalse\b/g, 'false')
+    .replace(/\bNone\b/g, 'null')
+    .replace(/'/g, '"');
+  try {
+    return JSON.parse(pythonic);
+  } catch {
+    return text;
+  }
+};
+
+export const detectMode = (examples: ProblemExample[]): HarnessMode => {
+  return examples.every(example => parseArguments(example.input)) ? 'function' : 'stdio';
+};
+
+// "Return the answer in any order" problems compare top-level arrays as multisets
+export const allowsAnyOrder = (statement: string): boolean => {
+  return /\bin any order\b/i.test(statement);
+};
+
+const canonical = (value: unknown): string => JSON.stringify(value);
+
+export const valuesEqual = (actual: unknown, expected: unknown, anyOrder = false): boolean => {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return Math.abs(actual - expected) <= 1e-5 * Math.max(1, Math.abs(expected));
+  }
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    if (actual.length !== expected.length) return false;
+    if (anyOrder) {
+      const sortedActual = actual.map(canonical).sort();
+      const sortedExpected = expected.map(canonical).sort();
+      return sortedActual.every((value, i) => value === sortedExpected[i]);
+    }
+    return actual.every((value, i) => valuesEqual(value, expected[i]));
+  }
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    const keys = Object.keys(expected);
+    return keys.length === Object.keys(actual).length
+      && keys.every(key => valuesEqual((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key]));
+  }
+  // Strings compare loosely so "abc" matches an unquoted abc from OCR text
+  if (typeof actual === 'string' || typeof expected === 'string') {
+    return String(actual).trim() === String(expected).trim();
+  }
+  return actual === expected;
+};
+
+// Whitespace-insensitive comparison of program output, numbers within 1e-5
+export const stdoutMatches = (actual: string, expected: string): boolean => {
+  const actualTokens = actual.trim().split(/\s+/);
+  const expectedTokens = expected.trim().split(/\s+/);
+  if (actualTokens.length !== expectedTokens.length) return false;
+
+  return actualTokens.every((token, i) => {
+    const a = Number(token);
+    const b = Number(expectedTokens[i]);
+    if (token !== '' && !Number.isNaN(a) && !Number.isNaN(b)) {
+      return valuesEqual(a, b);
+    }
+    return token === expectedTokens[i];
+  });
+};
+
+// The method the harness calls: the first method of class Solution, else the
+// first top-level function
+const findEntryPoint = (code: string, language: 'python' | 'javascript'): string | null => {
+  if (language === 'python') {
+    const method = /class\s+Solution\b[\s\S]*?\n\s+def\s+((?!_)\w+)\s*\(\s*self/.exec(code);
+    if (method) return method[1];
+    return /^def\s+(\w+)\s*\(/m.exec(code)?.[1] || null;
+  }
+
+  const method = /class\s+Solution\b[\s\S]*?\n\s+(?:public\s+|async\s+)?((?!constructor\b)[A-Za-z_$][\w$]*)\s*\(/.exec(code);
+  if (method) return method[1];
+  const declared = /^(?:var|let|const)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/m.exec(code)
+    || /^(?:export\s+)?(?:async\s+)?function\s+([A-Za-z_$][\w$]*)/m.exec(code);
+  return declared?.[1] || null;
+};
+
+const argumentValues = (examples: ProblemExample[]): unknown[][] => {
+  return examples.map(example => (parseArguments(example.input) || []).map(arg => parseValue(arg.value)));
+};
+
+// Names LeetCode's Python environment has in scope without imports
+const PYTHON_PRELUDE = `from typing import *
+from collections import *
+from functools import *
+from itertools import *
+from heapq import *
+from bisect import *
+import math
+import re
+import string
+`;
+
+/**
+ * Wraps the solution in a program that calls the entry point once per
+ * example. In-place problems return nothing, so the first argument is
+ * reported instead. Returns null when no entry point can be found.
+ */
+export const buildHarness = (
+  language: 'python' | 'javascript',
+  code: string,
+  examples: ProblemExample[]
+): string | null => {
+  const entry = findEntryPoint(code, language);
+  if (!entry) return null;
+
+  const cases = JSON.stringify(argumentValues(examples));
+
+  if (language === 'python') {
+    return `${PYTHON_PRELUDE}
+${code}
+
+import json as __json
+
+def __leetgoat_run():
+    cases = __json.loads(${JSON.stringify(cases)})
+    target = getattr(Solution(), ${JSON.stringify(entry)}) if 'Solution' in globals() else globals()[${JSON.stringify(entry)}]
+    for index, args in enumerate(cases):
+        try:
+            result = target(*args)
+            if result is None and args:
+                result = args[0]
+            print(${JSON.stringify(RESULT_MARKER)}, __json.dumps({'index': index, 'actual': result}, default=str))
+        except Exception as error:
+            print(${JSON.stringify(RESULT_MARKER)}, __json.dumps({'index': index, 'error': f'{type(error).__name__}: {error}'}))
+
+__leetgoat_run()
+`;
+  }
+
+  return `${code}
+
+;(() => {
+  const cases = ${cases};
+  const target = typeof Solution === 'function'
+    ? (...args) => new Solution()[${JSON.stringify(entry)}](...args)
+    : ${entry};
+  cases.forEach((args, index) => {
+    try {
+      let result = target(...args);
+      if (result === undefined && args.length > 0) {
+        result = args[0];
+      }
+      console.log(${JSON.stringify(RESULT_MARKER)}, JSON.stringify({ index, actual: result === undefined ? null : result }));
+    } catch (error) {
+      console.log(${JSON.stringify(RESULT_MARKER)}, JSON.stringify({ index, error: String(error) }));
+    }
+  });
+})();
+`;
+};
+
+// Collects the marked result lines from a harness run
+export const parseHarnessOutput = (stdout: string): HarnessResult[] => {
+  const results: HarnessResult[] = [];
+  for (const line of stdout.split('\n')) {
+    const at = line.indexOf(RESULT_MARKER);
+    if (at === -1) continue;
+    try {
+      const parsed = JSON.parse(line.slice(at + RESULT_MARKER.length).trim());
+      if (typeof parsed.index === 'number') {
+        results.push(parsed);
+      }
+    } catch {
+      // A harness line that got mangled, the example shows as missing
+    }
+  }
+  return results;
+};
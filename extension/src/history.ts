@@ -0,0 +1,121 @@
+// Persistent solve history, stored in chrome.storage.local
+
+import { getLocal, setLocal } from './storage'
+import type { Message, MessageType } from './types'
+import type { Solution } from './solution'
+import type { TestRun } from './runner'
+import type { Verification } from './verify'
+import type { HintLevelId, PracticeState } from './practice'
+import type { CodeTranslation } from './translate'
+import type { ConversationMemory } from './context'
+
+const SESSIONS_KEY = 'sessions';
+
+// Where a problem came from, used to key its session
+export interface ProblemSource {
+  title: string;
+  url: string;
+}
+
+interface StoredMessage {
+  id: string;
+  type: MessageType;
+  content: string;
+  timestamp: string;
+  solution?: Solution;
+  testRun?: TestRun;
+  verification?: Verification;
+  hintLevel?: HintLevelId;
+  translations?: CodeTranslation[];
+  pinned?: boolean;
+}
+
+export interface Session {
+  id: string;
+  title: string;
+  url: string;
+  language: string;
+  problemContext: string;
+  messages: StoredMessage[];
+  // Unfinished hint ladder or mock interview
+  practice?: PracticeState | null;
+  // Summary of follow-up turns that no longer fit the context budget
+  memory?: ConversationMemory | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Sessions are keyed by source URL and problem title, so capturing the same
+ * problem again finds the existing session.
+ */
+export const sessionIdFor = (source: ProblemSource): string => {
+  return `${source.url}#${source.title.trim().toLowerCase()}`;
+};
+
+// OCR and pasted text have no title, use the first meaningful line instead
+export const titleFromText = (text: string): string => {
+  const firstLine = text
+    .split('\n')
+    .map(line => line.replace(/^[#>*\-\s`]+/, '').trim())
+    .find(line => line.length > 0);
+  return (firstLine || 'Untitled problem').slice(0, 80);
+};
+
+export const toStoredMessages = (messages: Message[]): StoredMessage[] => {
+  return messages
+    .filter(message => !message.transient)
+    .map(message => ({ ...message, timestamp: message.timestamp.toISOString() }));
+};
+
+export const fromStoredMessages = (messages: StoredMessage[]): Message[] => {
+  return messages.map(message => ({ ...message, timestamp: new Date(message.timestamp) }));
+};
+
+// The fields that change while the user works on a problem, compared so that
+// merely opening a session does not count as an update
+export const contentSnapshot = (session: Pick<Session, 'language' | 'problemContext' | 'messages' | 'practice' | 'memory'>): string => {
+  return JSON.stringify([session.language, session.problemContext, session.messages, session.practice || null, session.memory || null]);
+};
+
+const loadAll = async (): Promise<Record<string, Session>> => {
+  return (await getLocal<Record<string, Session>>(SESSIONS_KEY)) || {};
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<Session[]> => {
+  const sessions = await loadAll();
+  return Object.values(sessions).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getSession = async (id: string): Promise<Session | null> => {
+  const sessions = await loadAll();
+  return sessions[id] || null;
+};
+
+export const saveSession = async (session: Session): Promise<void> => {
+  const sessions = await loadAll();
+  await setLocal(SESSIONS_KEY, { ...sessions, [session.id]: session });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const sessions = await loadAll();
+  delete sessions[id];
+  await setLocal(SESSIONS_KEY, sessions);
+};
+
+export const searchSessions = (sessions: Session[], query: string): Session[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return sessions;
+
+  return sessions.filter(session => {
+    // Parsed solutions make complexities and giveaway quotes searchable too
+    const solutionText = session.messages
+      .map(message => message.solution)
+      .filter((solution): solution is Solution => !!solution)
+      .map(solution => [solution.timeComplexity, solution.spaceComplexity, ...solution.giveaways].join('\n'))
+      .join('\n');
+    const haystack = `${session.title}\n${session.url}\n${session.problemContext}\n${solutionText}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
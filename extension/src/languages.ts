@@ -0,0 +1,36 @@
+// Languages offered in the language dropdown
+
+import { LANGUAGE_LABELS } from '../../server/templates.js'
+
+export interface Language {
+  id: string;
+  label: string;
+}
+
+// The same labels the translate prompt uses
+export const LANGUAGES: Language[] = Object.entries(LANGUAGE_LABELS).map(([id, label]) => ({ id, label }));
+
+// Code fence tags and editor language ids -> ids from LANGUAGES
+const LANGUAGE_ALIASES: Record<string, string> = {
+  py: 'python',
+  python3: 'python',
+  js: 'javascript',
+  ts: 'typescript',
+  'c++': 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  kt: 'kotlin'
+};
+
+export const normalizeLanguage = (language: string): string => {
+  const id = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[id] || id;
+};
+
+// The dropdown id for a fence tag or editor language, or null if it is not one we offer
+export const findLanguage = (language: string): Language | null => {
+  const id = normalizeLanguage(language);
+  return LANGUAGES.find(candidate => candidate.id === id) || null;
+};
@@ -0,0 +1,258 @@
+// Chat requests to the configured LLM provider, either routed through the proxy
+// server or sent straight to the provider with the user's own key. Callers always
+// get a response in the OpenAI chat completions format.
+//
+// Everything the extension asks a model is a task: the proxy builds the prompts
+// from its versioned templates (server/templates.js), so only the inputs are
+// sent from here. In direct mode the prompt is fetched from the proxy, or
+// built from the bundled templates when the proxy is down.
+
+import type { HintLevelId, SolveMode } from './practice'
+import type { ProblemExample } from './problem'
+import { buildLocalTaskPrompt } from './prompts'
+import { proxyFetch } from './proxy'
+import type { Settings } from './settings'
+import type { SolutionSectionId } from './solution'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  messages: ChatMessage[];
+  maxTokens: number;
+  stream?: boolean;
+  signal?: AbortSignal;
+}
+
+// Solve, hint, interview and follow-up requests
+export interface ConversationInput {
+  problemText: string;
+  language: string;
+  // Earlier turns, without the system prompt
+  history?: ChatMessage[];
+  // The follow-up question
+  question?: string;
+  // Keeps follow-ups in the coach or interviewer role while practicing
+  mode?: Exclude<SolveMode, 'solution'> | null;
+  // Hint step to reveal, or the last one revealed for follow-ups
+  level?: Exclude<HintLevelId, 'code'> | null;
+  // Summary of older turns that are no longer sent
+  memory?: string | null;
+}
+
+// The inputs of each task, as the proxy's templates read them
+export interface TaskInputs {
+  solve: ConversationInput;
+  hint: ConversationInput;
+  interview: ConversationInput;
+  followup: ConversationInput;
+  // Rewrites one section of a solve answer; `heading` is its header line as written
+  section: { problemText: string; language: string; solution: string; section: SolutionSectionId; heading: string };
+  translate: { problemText: string; code: string; from: string; to: string };
+  review: { problemText: string; language: string; code: string };
+  edgecases: { problemText: string; examples: ProblemExample[] };
+  // A test harness for languages the extension cannot wrap itself
+  harness: { language: string; code: string; examples: ProblemExample[] };
+  // Folds older turns into the conversation memory
+  summarize: { memory: string | null; history: ChatMessage[] };
+}
+
+export type Task = keyof TaskInputs;
+
+export interface TaskOptions {
+  // Overrides the reply size the template asks for
+  maxTokens?: number;
+  stream?: boolean;
+  signal?: AbortSignal;
+}
+
+const openAIChunk = (delta: { content?: string }, finishReason: string | null) => {
+  return `data: ${JSON.stringify({ choices: [{ index: 0, delta, finish_reason: finishReason }] })}\n\n`;
+};
+
+const mapAnthropicStopReason = (reason: string | null | undefined) => {
+  if (reason === 'max_tokens') return 'length';
+  if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+  return reason || null;
+};
+
+// Rewrites Anthropic stream events as OpenAI chat.completion.chunk events,
+// mirroring the conversion server.js does for proxied requests
+const anthropicToOpenAIStream = (body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> => {
+  let buffer = '';
+
+  const convert = (line: string): string => {
+    if (!line.startsWith('data: ')) return '';
+
+    try {
+      const event = JSON.parse(line.slice(6));
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        return openAIChunk({ content: event.delta.text }, null);
+      }
+      if (event.type === 'message_delta' && event.delta?.stop_reason) {
+        return openAIChunk({}, mapAnthropicStopReason(event.delta.stop_reason));
+      }
+      if (event.type === 'message_stop') {
+        return 'data: [DONE]\n\n';
+      }
+      if (event.type === 'error') {
+        return `data: ${JSON.stringify({ error: event.error })}\n\n`;
+      }
+    } catch {
+      // Ignore malformed events
+    }
+    return '';
+  };
+
+  return body
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new TransformStream<string, string>({
+      transform(chunk, controller) {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const out = convert(line.replace(/\r$/, ''));
+          if (out) controller.enqueue(out);
+        }
+      },
+      flush(controller) {
+        const out = convert(buffer);
+        if (out) controller.enqueue(out);
+      }
+    }))
+    .pipeThrough(new TextEncoderStream());
+};
+
+const requestDirect = async (settings: Settings, options: ChatOptions): Promise<Response> => {
+  const apiKey = settings.apiKeys[settings.provider]?.trim() || '';
+  const stream = options.stream ?? true;
+
+  if (settings.provider === 'anthropic') {
+    if (!apiKey) {
+      throw new Error('No Anthropic API key set. Add one in Settings or switch to the proxy.');
+    }
+
+    // Anthropic takes the system prompt separately from the conversation
+    const system = options.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        system: system || undefined,
+        messages: options.messages.filter(m => m.role !== 'system'),
+        max_tokens: options.maxTokens,
+        stream
+      })
+    });
+
+    if (!response.ok || !response.body) {
+      return response;
+    }
+
+    if (stream) {
+      return new Response(anthropicToOpenAIStream(response.body), {
+        status: response.status,
+        headers: { 'Content-Type': 'text/event-stream' }
+      });
+    }
+
+    const data = await response.json();
+    const content = (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('');
+    return new Response(JSON.stringify({
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: mapAnthropicStopReason(data.stop_reason)
+      }]
+    }), { status: response.status, headers: { 'Content-Type': 'application/json' } });
+  }
+
+  // OpenAI and local servers share the OpenAI wire format
+  const baseUrl = settings.provider === 'local'
+    ? settings.localBaseUrl.trim().replace(/\/$/, '')
+    : 'https://api.openai.com/v1';
+  if (settings.provider === 'openai' && !apiKey) {
+    throw new Error('No OpenAI API key set. Add one in Settings or switch to the proxy.');
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  return fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal: options.signal,
+    headers,
+    body: JSON.stringify({
+      model: settings.model,
+      stream,
+      messages: options.messages,
+      // Ollama and llama.cpp only understand the older max_tokens field
+      [settings.provider === 'local' ? 'max_tokens' : 'max_completion_tokens']: options.maxTokens
+    })
+  });
+};
+
+const checkResponse = async (settings: Settings, response: Response): Promise<Response> => {
+  if (!response.ok) {
+    // Provider outages the proxy already retried come with a message meant for the user
+    const failure = await response.clone().json().catch(() => null);
+    if (typeof failure?.code === 'string' && failure.code.startsWith('upstream_')) {
+      throw new Error(failure.error);
+    }
+    const errorText = await response.text();
+    const source = settings.connection === 'direct' ? 'Provider Error' : 'Proxy Server Error';
+    throw new Error(`${source}: ${response.status} - ${errorText}`);
+  }
+
+  return response;
+};
+
+export const requestTaskCompletion = async <T extends Task>(
+  settings: Settings,
+  task: T,
+  input: TaskInputs[T],
+  options: TaskOptions = {}
+): Promise<Response> => {
+  if (settings.connection === 'direct') {
+    // Built from the bundled templates: the problem and the user's code never go to the proxy
+    const prompt = buildLocalTaskPrompt(task, input);
+    const response = await requestDirect(settings, {
+      ...prompt,
+      maxTokens: options.maxTokens || prompt.maxTokens,
+      stream: options.stream,
+      signal: options.signal
+    });
+    return checkResponse(settings, response);
+  }
+
+  const response = await proxyFetch(settings, `/api/${task}`, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      ...input,
+      provider: settings.provider,
+      model: settings.model,
+      stream: options.stream ?? true,
+      max_completion_tokens: options.maxTokens
+    })
+  });
+  return checkResponse(settings, response);
+};
@@ -0,0 +1,10 @@
+// Remark and rehype plugins shared by the chat renderer and the HTML export,
+// so exported files look like the side panel
+
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeHighlight from 'rehype-highlight'
+import rehypeKatex from 'rehype-katex'
+
+export const REMARK_PLUGINS = [remarkGfm, remarkMath];
+export const REHYPE_PLUGINS = [rehypeHighlight, rehypeKatex];
@@ -0,0 +1,26 @@
+// Practice modes: a hint ladder that reveals the answer one step at a time, and
+// a mock interview that grades the user's approach before revealing anything.
+// Their prompts are the hint and interview templates in server/templates.js.
+
+export type SolveMode = 'solution' | 'hints' | 'interview';
+
+export type HintLevelId = 'pattern' | 'outline' | 'pseudocode' | 'code';
+
+export interface HintLevel {
+  id: HintLevelId;
+  label: string;
+}
+
+// In reveal order; the last step is the normal full solution
+export const HINT_LEVELS: HintLevel[] = [
+  { id: 'pattern', label: '💡 Pattern hint' },
+  { id: 'outline', label: '🧭 Approach outline' },
+  { id: 'pseudocode', label: '📝 Pseudocode' },
+  { id: 'code', label: '✅ Full solution' }
+];
+
+export interface PracticeState {
+  mode: Exclude<SolveMode, 'solution'>;
+  // How many hint levels have been shown so far
+  revealed: number;
+}
@@ -0,0 +1,101 @@
+// Structured problem data extracted from the page DOM by contentScript.js
+
+import { readEditorCode } from './editor'
+import { sendTabMessage } from './tabs'
+
+export interface ProblemExample {
+  input: string;
+  output: string;
+  explanation?: string;
+}
+
+export interface ProblemData {
+  site: string;
+  url: string;
+  title: string;
+  statement: string;
+  examples: ProblemExample[];
+  constraints: string[];
+  starterCode: string;
+}
+
+interface ExtractResponse {
+  success: boolean;
+  problem?: ProblemData;
+  error?: string;
+}
+
+/**
+ * Asks the content script in the given tab to extract the problem from the DOM.
+ * Returns null when the site has no extractor or the page cannot be scripted,
+ * in which case the caller should fall back to OCR.
+ */
+export const extractProblemFromTab = async (tabId: number): Promise<ProblemData | null> => {
+  const response = await sendTabMessage<ExtractResponse>(tabId, { action: 'extractProblem' });
+  if (!response || !response.success || !response.problem) {
+    return null;
+  }
+
+  // The content script only sees the rendered editor lines, long starter code gets cut off
+  const { problem } = response;
+  const editor = problem.starterCode ? await readEditorCode(tabId) : null;
+  return editor ? { ...problem, starterCode: editor.code } : problem;
+};
+
+/**
+ * Formats the structured problem as markdown for the LLM prompt.
+ */
+export const formatProblemForPrompt = (problem: ProblemData): string => {
+  const sections: string[] = [];
+
+  sections.push(`# ${problem.title}`);
+  sections.push(`Source: ${problem.url}`);
+  sections.push(`## Statement\n\n${problem.statement}`);
+
+  if (problem.examples.length > 0) {
+    const examples = problem.examples.map((example, i) => {
+      let text = `### Example ${i + 1}\n\n**Input:**\n\`\`\`\n${example.input}\n\`\`\`\n\n**Output:**\n\`\`\`\n${example.output}\n\`\`\``;
+      if (example.explanation) {
+        text += `\n\n**Explanation:** ${example.explanation}`;
+      }
+      return text;
+    });
+    sections.push(`## Examples\n\n${examples.join('\n\n')}`);
+  }
+
+  if (problem.constraints.length > 0) {
+    sections.push(`## Constraints\n\n${problem.constraints.map(c => `- ${c}`).join('\n')}`);
+  }
+
+  if (problem.starterCode.trim()) {
+    sections.push(`## Starter Code\n\n\`\`\`\n${problem.starterCode}\n\`\`\``);
+  }
+
+  return sections.join('\n\n');
+};
+
+/**
+ * Recovers the examples from problem text, either the markdown written by
+ * formatProblemForPrompt or OCR text with "Input: ... Output: ..." pairs.
+ */
+export const parseExamplesFromText = (text: string): ProblemExample[] => {
+  const examples: ProblemExample[] = [];
+
+  const formatted = /\*\*Input:\*\*\s*```\n([\s\S]*?)\n```\s*\*\*Output:\*\*\s*```\n([\s\S]*?)\n```/g;
+  let match;
+  while ((match = formatted.exec(text)) !== null) {
+    examples.push({ input: match[1].trim(), output: match[2].trim() });
+  }
+  if (examples.length > 0) return examples;
+
+  // Output ends at the next blank line or labelled block
+  const plain = /Input:\s*([\s\S]*?)\s*Output:\s*([\s\S]*?)(?=\n\s*\n|\n?\s*(?:Explanation|Example|Constraints|Input|Note)\b|$)/gi;
+  while ((match = plain.exec(text)) !== null) {
+    const input = match[1].trim();
+    const output = match[2].trim();
+    if (input && output) {
+      examples.push({ input, output });
+    }
+  }
+  return examples;
+};
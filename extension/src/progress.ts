@@ -0,0 +1,118 @@
+// Progress stats over saved sessions and review cards: problems per pattern and
+// difficulty, weak areas, and recent activity.
+
+import type { Session } from './history'
+import type { Solution } from './solution'
+import type { ReviewCard } from './srs'
+import { classifySolveOutput, findPattern, PATTERNS, type Difficulty, type Pattern, type PatternId } from './taxonomy'
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Average SM-2 easiness below this means reviews of the pattern keep going badly
+const STRUGGLING_EASINESS = 2.3;
+const RECENT_LIMIT = 10;
+
+export interface PatternProgress {
+  pattern: Pattern;
+  solved: number;
+  // Average easiness of the pattern's reviewed cards, null before any review
+  easiness: number | null;
+}
+
+export interface WeakArea {
+  pattern: Pattern;
+  reason: string;
+}
+
+export interface RecentProblem {
+  session: Session;
+  pattern: Pattern | null;
+  difficulty: Difficulty | null;
+}
+
+export interface Progress {
+  solved: number;
+  solvedThisWeek: number;
+  // Most solved first, patterns with no problems last
+  byPattern: PatternProgress[];
+  byDifficulty: Record<Difficulty | 'unknown', number>;
+  weakAreas: WeakArea[];
+  // Not yet covered by any solved problem
+  uncovered: Pattern[];
+  recent: RecentProblem[];
+}
+
+// Sessions saved before classification existed are classified from their sections
+const classify = (solution: Solution): { pattern: PatternId | null, difficulty: Difficulty | null } => {
+  if (solution.pattern !== undefined) {
+    return { pattern: solution.pattern, difficulty: solution.difficulty ?? null };
+  }
+  const giveaways = solution.sections.find(section => section.id === 'giveaways');
+  return classifySolveOutput(solution.summary, `${solution.summary}\n${giveaways?.body || ''}`);
+};
+
+const latestSolution = (session: Session): Solution | null => {
+  const message = session.messages.slice().reverse().find(candidate => candidate.solution);
+  return message?.solution || null;
+};
+
+export const buildProgress = (sessions: Session[], cards: ReviewCard[], now = new Date()): Progress => {
+  const solvedSessions = sessions
+    .map(session => ({ session, solution: latestSolution(session) }))
+    .filter((entry): entry is { session: Session, solution: Solution } => !!entry.solution)
+    .map(({ session, solution }) => ({ session, ...classify(solution) }))
+    .sort((a, b) => b.session.updatedAt.localeCompare(a.session.updatedAt));
+
+  const byDifficulty: Progress['byDifficulty'] = { easy: 0, medium: 0, hard: 0, unknown: 0 };
+  const solvedByPattern = new Map<PatternId, number>();
+  for (const { pattern, difficulty } of solvedSessions) {
+    byDifficulty[difficulty || 'unknown']++;
+    if (pattern) {
+      solvedByPattern.set(pattern, (solvedByPattern.get(pattern) || 0) + 1);
+    }
+  }
+
+  // Review cards carry the pattern label
+  const easinessByPattern = new Map<PatternId, number[]>();
+  for (const card of cards) {
+    const pattern = PATTERNS.find(candidate => candidate.label === card.technique);
+    if (!pattern || !card.lastReviewedAt) continue;
+    easinessByPattern.set(pattern.id, [...(easinessByPattern.get(pattern.id) || []), card.easiness]);
+  }
+
+  const byPattern = PATTERNS
+    .map(pattern => {
+      const easiness = easinessByPattern.get(pattern.id);
+      return {
+        pattern,
+        solved: solvedByPattern.get(pattern.id) || 0,
+        easiness: easiness ? easiness.reduce((sum, value) => sum + value, 0) / easiness.length : null
+      };
+    })
+    .sort((a, b) => b.solved - a.solved);
+
+  const weakAreas: WeakArea[] = byPattern
+    .filter(entry => entry.easiness !== null && entry.easiness < STRUGGLING_EASINESS)
+    .sort((a, b) => a.easiness! - b.easiness!)
+    .map(entry => ({ pattern: entry.pattern, reason: 'Reviews keep going badly' }));
+  // A single solved problem is not enough practice to recognize a pattern
+  for (const entry of byPattern) {
+    if (entry.solved === 1 && !weakAreas.some(area => area.pattern.id === entry.pattern.id)) {
+      weakAreas.push({ pattern: entry.pattern, reason: 'Only one problem solved' });
+    }
+  }
+
+  const weekAgo = new Date(now.getTime() - 7 * DAY_MS).toISOString();
+  return {
+    solved: solvedSessions.length,
+    solvedThisWeek: solvedSessions.filter(({ session }) => session.createdAt >= weekAgo).length,
+    byPattern,
+    byDifficulty,
+    weakAreas,
+    uncovered: byPattern.filter(entry => entry.solved === 0).map(entry => entry.pattern),
+    recent: solvedSessions.slice(0, RECENT_LIMIT).map(({ session, pattern, difficulty }) => ({
+      session,
+      pattern: pattern ? findPattern(pattern) || null : null,
+      difficulty
+    }))
+  };
+};
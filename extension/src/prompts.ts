@@ -0,0 +1,11 @@
+// The proxy's prompt templates (server/templates.js), bundled for direct mode:
+// with the user's own key the extension builds the messages itself from the
+// newest version of each template, so nothing is sent to the proxy.
+
+import { newestVersion, renderPrompt } from '../../server/templates.js'
+import type { ChatOptions, Task, TaskInputs } from './llm'
+
+export const buildLocalTaskPrompt = <T extends Task>(task: T, input: TaskInputs[T]): Pick<ChatOptions, 'messages' | 'maxTokens'> => {
+  const { messages, maxTokens } = renderPrompt(task, newestVersion(task), input);
+  return { messages, maxTokens };
+};
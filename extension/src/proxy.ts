@@ -0,0 +1,99 @@
+// Requests to the proxy server. Every /api route wants a per-install token,
+// which is fetched once per proxy URL and kept in storage.
+
+import type { Settings } from './settings'
+import { getLocal, setLocal } from './storage'
+
+// Shared proxy server URL - update this after deploying to Vercel
+export const DEFAULT_PROXY_URL = import.meta.env.VITE_PROXY_URL || 'https://pserver-six.vercel.app';
+
+// Tokens by proxy URL, so switching servers does not send one server's token to another
+const INSTALL_TOKENS_KEY = 'installTokens';
+
+// Thrown when the server answers 429, with a message fit to show as is
+export class ProxyLimitError extends Error {
+  // Seconds until the request may be retried
+  retryAfter: number | null;
+
+  constructor(message: string, retryAfter: number | null) {
+    super(message);
+    this.name = 'ProxyLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The user's self-hosted server.js, or the shared one
+export const getProxyUrl = (settings: Settings): string => {
+  return (settings.proxyUrl.trim() || DEFAULT_PROXY_URL).replace(/\/$/, '');
+};
+
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+const limitError = async (response: Response): Promise<ProxyLimitError> => {
+  const body = await response.json().catch(() => ({}));
+  const header = Number(response.headers.get('Retry-After'));
+  const retryAfter = Number.isFinite(header) && header > 0 ? header : body.retryAfter || null;
+  const wait = retryAfter ? formatWait(retryAfter) : null;
+
+  if (body.code === 'quota_exceeded') {
+    return new ProxyLimitError(
+      `Daily limit reached on the shared server${wait ? `, it resets in ${wait}` : ''}. Use your own API key in Settings to keep going.`,
+      retryAfter
+    );
+  }
+  return new ProxyLimitError(
+    `Too many requests, slow down a little.${wait ? ` Try again in ${wait}.` : ''}`,
+    retryAfter
+  );
+};
+
+const requestInstallToken = async (proxyUrl: string): Promise<string> => {
+  const response = await fetch(`${proxyUrl}/api/install`, { method: 'POST' });
+  if (response.status === 429) {
+    throw await limitError(response);
+  }
+  if (!response.ok) {
+    throw new Error(`Proxy Server Error: ${response.status} - could not register this install`);
+  }
+  const { token } = await response.json();
+  return token;
+};
+
+const getInstallToken = async (proxyUrl: string, refresh = false): Promise<string> => {
+  const tokens = await getLocal<Record<string, string>>(INSTALL_TOKENS_KEY) || {};
+  if (tokens[proxyUrl] && !refresh) {
+    return tokens[proxyUrl];
+  }
+
+  const token = await requestInstallToken(proxyUrl);
+  await setLocal(INSTALL_TOKENS_KEY, { ...tokens, [proxyUrl]: token });
+  return token;
+};
+
+/**
+ * fetch() against the proxy with the install token attached. A rejected token
+ * (e.g. the server's secret changed) is replaced once; a 429 becomes a
+ * ProxyLimitError. Other responses are returned for the caller to check.
+ */
+export const proxyFetch = async (settings: Settings, path: string, init: RequestInit = {}): Promise<Response> => {
+  const proxyUrl = getProxyUrl(settings);
+  const send = (token: string) => fetch(`${proxyUrl}${path}`, {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${token}` }
+  });
+
+  let response = await send(await getInstallToken(proxyUrl));
+  if (response.status === 401) {
+    response = await send(await getInstallToken(proxyUrl, true));
+  }
+  if (response.status === 429) {
+    throw await limitError(response);
+  }
+  return response;
+};
@@ -0,0 +1,6 @@
+// The user's message for a code review as the chat shows it. The server's
+// review template (server/templates.js) sends the same text to the model.
+
+export const codeReviewRequest = (code: string, language: string): string => {
+  return `Please review my code:\n\n\`\`\`${language}\n${code}\n\`\`\``;
+};
@@ -0,0 +1,263 @@
+// Runs a solution against the problem's examples. JavaScript, TypeScript and
+// Python run in the browser inside sandbox.html; every other language goes to
+// the proxy's /api/run endpoint.
+
+import { requestTaskCompletion } from './llm'
+import { proxyFetch } from './proxy'
+import { normalizeLanguage } from './languages'
+import type { ProblemExample } from './problem'
+import type { Settings } from './settings'
+import {
+  allowsAnyOrder,
+  buildHarness,
+  detectMode,
+  parseHarnessOutput,
+  parseValue,
+  stdoutMatches,
+  valuesEqual,
+  type HarnessMode
+} from './harness'
+
+export interface RunRequest {
+  language: string;
+  source: string;
+  stdin?: string;
+  timeoutMs?: number;
+}
+
+export interface RunOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  timedOut: boolean;
+}
+
+export interface ExampleResult {
+  input: string;
+  expected: string;
+  // What the solution produced, formatted for display; null when it produced nothing
+  actual: string | null;
+  passed: boolean;
+  error?: string;
+}
+
+export interface TestRun {
+  language: string;
+  mode: HarnessMode;
+  results: ExampleResult[];
+  // Set when the whole run failed, e.g. a compile error or timeout
+  error?: string;
+  ranAt: string;
+}
+
+const BROWSER_LANGUAGES = ['javascript', 'typescript', 'python'];
+const RUN_TIMEOUT_MS = 5000;
+// The sandbox enforces the run's time limit itself, allowing Pyodide this long
+// to start. The panel gives up a little later in case the sandbox never answers.
+const PYODIDE_LOAD_MS = 60000;
+const SANDBOX_GRACE_MS = 2000;
+
+export const runsInBrowser = (language: string): boolean => {
+  return BROWSER_LANGUAGES.includes(normalizeLanguage(language));
+};
+
+// One hidden sandbox frame per panel, created on first run
+let sandbox: Promise<HTMLIFrameElement> | null = null;
+const pendingRuns = new Map<string, (output: RunOutput) => void>();
+
+const getSandbox = (): Promise<HTMLIFrameElement> => {
+  if (!sandbox) {
+    sandbox = new Promise((resolve) => {
+      const frame = document.createElement('iframe');
+      frame.src = 'sandbox.html';
+      frame.style.display = 'none';
+
+      window.addEventListener('message', (event) => {
+        if (event.source !== frame.contentWindow || event.data?.type !== 'runResult') return;
+        const done = pendingRuns.get(event.data.id);
+        if (done) {
+          pendingRuns.delete(event.data.id);
+          done(event.data as RunOutput);
+        }
+      });
+
+      frame.addEventListener('load', () => resolve(frame), { once: true });
+      document.body.appendChild(frame);
+    });
+  }
+  return sandbox;
+};
+
+// TypeScript only needs its types stripped before it runs as JavaScript
+const toJavaScript = async (source: string): Promise<string> => {
+  const { transform } = await import('sucrase');
+  return transform(source, { transforms: ['typescript'] }).code;
+};
+
+const runInSandbox = async (request: RunRequest): Promise<RunOutput> => {
+  const language = normalizeLanguage(request.language);
+  const source = language === 'typescript' ? await toJavaScript(request.source) : request.source;
+  const frame = await getSandbox();
+  const id = Date.now().toString() + Math.random().toString(36).substr(2, 9);
+  const timeoutMs = request.timeoutMs || RUN_TIMEOUT_MS;
+  const deadline = timeoutMs + (language === 'python' ? PYODIDE_LOAD_MS : 0) + SANDBOX_GRACE_MS;
+
+  return new Promise((resolve) => {
+    // Removing the frame terminates its workers; the next run starts a fresh one
+    const timer = setTimeout(() => {
+      pendingRuns.delete(id);
+      if (frame.isConnected) {
+        frame.remove();
+        sandbox = null;
+      }
+      resolve({ stdout: '', stderr: `The sandbox did not answer within ${Math.round(deadline / 1000)} seconds`, exitCode: null, timedOut: true });
+    }, deadline);
+
+    pendingRuns.set(id, (output) => {
+      clearTimeout(timer);
+      resolve(output);
+    });
+    // The sandbox has an opaque origin, so there is no narrower target to name
+    frame.contentWindow?.postMessage({
+      type: 'run',
+      id,
+      language: language === 'python' ? 'python' : 'javascript',
+      source,
+      stdin: request.stdin || '',
+      timeoutMs
+    }, '*');
+  });
+};
+
+const runOnServer = async (settings: Settings, request: RunRequest): Promise<RunOutput> => {
+  const response = await proxyFetch(settings, '/api/run', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ ...request, language: normalizeLanguage(request.language) })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Run Error: ${response.status} - ${errorText}`);
+  }
+  return response.json();
+};
+
+export const runSource = (settings: Settings, request: RunRequest): Promise<RunOutput> => {
+  return runsInBrowser(request.language) ? runInSandbox(request) : runOnServer(settings, request);
+};
+
+// Asks the configured model to wrap the solution for compiled languages
+const generateHarness = async (settings: Settings, language: string, code: string, examples: ProblemExample[]): Promise<string> => {
+  const response = await requestTaskCompletion(settings, 'harness', { language, code, examples }, { stream: false });
+  const data = await response.json();
+  const content: string = data.choices?.[0]?.message?.content || '';
+  const block = /```[\w+#-]*[^\n]*\n([\s\S]*?)```/.exec(content);
+  if (!block) {
+    throw new Error('The model did not return a test harness');
+  }
+  return block[1];
+};
+
+const formatValue = (value: unknown): string => {
+  return JSON.stringify(value) ?? String(value);
+};
+
+// What went wrong with the run as a whole, if anything
+const describeFailure = (output: RunOutput, timeoutMs: number): string | undefined => {
+  if (output.timedOut) return `Timed out after ${timeoutMs / 1000}s`;
+  if (output.exitCode !== 0 && output.stderr.trim()) return output.stderr.trim();
+  return undefined;
+};
+
+const runFunctionExamples = async (
+  settings: Settings,
+  language: string,
+  code: string,
+  examples: ProblemExample[],
+  anyOrder: boolean
+): Promise<Omit<TestRun, 'ranAt'>> => {
+  const source = runsInBrowser(language)
+    ? buildHarness(language === 'python' ? 'python' : 'javascript', code, examples)
+    : await generateHarness(settings, language, code, examples);
+  if (!source) {
+    return { language, mode: 'function', results: [], error: 'Could not find the function to call in the solution' };
+  }
+
+  // All examples share one run, so they share a larger budget
+  const timeoutMs = RUN_TIMEOUT_MS * 2;
+  const output = await runSource(settings, { language, source, timeoutMs });
+  const harnessResults = parseHarnessOutput(output.stdout);
+
+  const results = examples.map((example, index): ExampleResult => {
+    const result = harnessResults.find(r => r.index === index);
+    if (!result) {
+      return { input: example.input, expected: example.output, actual: null, passed: false, error: 'No result' };
+    }
+    if (result.error) {
+      return { input: example.input, expected: example.output, actual: null, passed: false, error: result.error };
+    }
+    return {
+      input: example.input,
+      expected: example.output,
+      actual: formatValue(result.actual),
+      passed: valuesEqual(result.actual, parseValue(example.output), anyOrder)
+    };
+  });
+
+  return { language, mode: 'function', results, error: describeFailure(output, timeoutMs) };
+};
+
+const runStdioExamples = async (
+  settings: Settings,
+  language: string,
+  code: string,
+  examples: ProblemExample[]
+): Promise<Omit<TestRun, 'ranAt'>> => {
+  const results: ExampleResult[] = [];
+  let error: string | undefined;
+
+  // One run per example, since each one is a separate stdin
+  for (const example of examples) {
+    const output = await runSource(settings, { language, source: code, stdin: example.input, timeoutMs: RUN_TIMEOUT_MS });
+    const failure = describeFailure(output, RUN_TIMEOUT_MS);
+    results.push({
+      input: example.input,
+      expected: example.output,
+      actual: output.stdout.trim() || null,
+      passed: !failure && stdoutMatches(output.stdout, example.output),
+      error: failure
+    });
+    // A compile error fails every example the same way
+    if (failure && !output.timedOut && output.stdout === '') {
+      error = failure;
+      break;
+    }
+  }
+
+  return { language, mode: 'stdio', results, error };
+};
+
+/**
+ * Runs the solution against every example. Never throws: problems with the
+ * run itself come back in TestRun.error so they can be shown inline.
+ */
+export const runExamples = async (
+  settings: Settings,
+  { language, code, examples, statement }: { language: string, code: string, examples: ProblemExample[], statement: string }
+): Promise<TestRun> => {
+  const id = normalizeLanguage(language);
+  const mode = detectMode(examples);
+
+  try {
+    const run = mode === 'function'
+      ? await runFunctionExamples(settings, id, code, examples, allowsAnyOrder(statement))
+      : await runStdioExamples(settings, id, code, examples);
+    return { ...run, ranAt: new Date().toISOString() };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { language: id, mode, results: [], error: errorMessage, ranAt: new Date().toISOString() };
+  }
+};
@@ -0,0 +1,64 @@
+// User settings, stored in chrome.storage.local
+
+import { getLocal, setLocal } from './storage'
+
+const SETTINGS_KEY = 'settings';
+
+export type ProviderId = 'openai' | 'anthropic' | 'local';
+
+export interface ProviderOption {
+  id: ProviderId;
+  label: string;
+  // Suggestions for the model field, any model name the provider accepts works
+  models: string[];
+}
+
+export const PROVIDERS: ProviderOption[] = [
+  { id: 'openai', label: 'OpenAI', models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'o3-mini'] },
+  { id: 'anthropic', label: 'Anthropic', models: ['claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest', 'claude-sonnet-4-0'] },
+  { id: 'local', label: 'Local (OpenAI-compatible)', models: ['llama3.1', 'qwen2.5-coder', 'deepseek-coder-v2'] }
+];
+
+// 'proxy' goes through server.js (shared or self-hosted), 'direct' calls the provider with the user's own key
+export type ConnectionMode = 'proxy' | 'direct';
+
+export interface Settings {
+  provider: ProviderId;
+  model: string;
+  connection: ConnectionMode;
+  // Empty means the shared proxy
+  proxyUrl: string;
+  apiKeys: Partial<Record<ProviderId, string>>;
+  // OpenAI-compatible base URL for the local provider in direct mode
+  localBaseUrl: string;
+  // Most tokens a follow-up request may use, capped by the model's context window
+  contextBudget: number;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  connection: 'proxy',
+  proxyUrl: '',
+  apiKeys: {},
+  localBaseUrl: 'http://localhost:11434/v1',
+  contextBudget: 16000
+};
+
+export const loadSettings = async (): Promise<Settings> => {
+  const saved = await getLocal<Partial<Settings>>(SETTINGS_KEY);
+  return { ...DEFAULT_SETTINGS, ...saved, apiKeys: { ...saved?.apiKeys } };
+};
+
+// Keeps the side panel in sync when settings are saved from the options page
+export const onSettingsChanged = (callback: (settings: Settings) => void) => {
+  window.chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[SETTINGS_KEY]) {
+      loadSettings().then(callback);
+    }
+  });
+};
+
+export const saveSettings = async (settings: Settings): Promise<void> => {
+  await setLocal(SETTINGS_KEY, settings);
+};
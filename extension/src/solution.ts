@@ -0,0 +1,181 @@
+// Parses the solve response into a typed Solution. The prompt asks for a fixed
+// set of markdown sections, so a section parser works with every provider and
+// with streamed output; anything that does not validate stays plain markdown.
+
+import { SECTION_TITLES } from '../../server/templates.js'
+import { classifySolveOutput, type Difficulty, type PatternId } from './taxonomy'
+
+export type SolutionSectionId = keyof typeof SECTION_TITLES;
+
+export interface SolutionSection {
+  id: SolutionSectionId;
+  // The full header line, e.g. "### ⏱️ Time Complexity: $\mathcal{O}(n)$"
+  heading: string;
+  // Markdown below the header, up to the next known section
+  body: string;
+}
+
+export interface SimilarProblem {
+  title: string;
+  url: string;
+}
+
+export interface Solution {
+  sections: SolutionSection[];
+  summary: string;
+  code: { language: string, source: string } | null;
+  timeComplexity: string | null;
+  spaceComplexity: string | null;
+  giveaways: string[];
+  similarProblems: SimilarProblem[];
+  // Missing on solutions saved before problems were classified
+  pattern?: PatternId | null;
+  difficulty?: Difficulty | null;
+}
+
+// The prompt's section titles without emoji or a plural "s", so a header only
+// has to start with one, in any case, to count
+const SECTION_NAMES = (Object.keys(SECTION_TITLES) as SolutionSectionId[]).map(id => ({
+  id,
+  name: SECTION_TITLES[id].replace(/^[^A-Za-z]+/, '').replace(/s$/, '').toLowerCase()
+}));
+
+const matchSection = (line: string): SolutionSectionId | null => {
+  const match = /^(#{2,3})\s+(.*)$/.exec(line.trim());
+  if (!match) return null;
+
+  // Drop emoji and punctuation before the title text
+  const title = match[2].replace(/^[^A-Za-z]+/, '');
+  const found = SECTION_NAMES.find(section => title.toLowerCase().startsWith(section.name));
+  return found ? found.id : null;
+};
+
+/**
+ * Splits markdown into the known sections. Headers inside fenced code blocks
+ * are ignored, and text before the first known header is dropped.
+ */
+export const splitSections = (markdown: string): SolutionSection[] => {
+  const sections: SolutionSection[] = [];
+  let current = null as { id: SolutionSectionId, heading: string, lines: string[] } | null;
+  let inFence = false;
+
+  const flush = () => {
+    if (current) {
+      sections.push({ id: current.id, heading: current.heading, body: current.lines.join('\n').trim() });
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (line.trim().startsWith('```')) {
+      inFence = !inFence;
+    }
+
+    const id = inFence ? null : matchSection(line);
+    // A repeated header (e.g. "Example" inside the example section) is just content
+    if (id && !sections.some(section => section.id === id) && current?.id !== id) {
+      flush();
+      current = { id, heading: line.trim(), lines: [] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+};
+
+// "$\mathcal{O}(n \log n)$" or "`O(n log n)`" -> "O(n log n)"
+const extractComplexity = (section: SolutionSection | undefined): string | null => {
+  if (!section) return null;
+
+  const fromHeading = /\\mathcal\{O\}\s*\(([^$]*)\)\s*\$/.exec(section.heading)
+    || /O\(([^)]*(?:\([^)]*\))?[^)]*)\)/.exec(section.heading.split(':').slice(1).join(':'));
+  const fromBody = /`O\(([^`]*)\)`/.exec(section.body);
+  const raw = fromHeading?.[1] || fromBody?.[1];
+  if (!raw || /actual_complexity/.test(raw)) return null;
+
+  const cleaned = raw
+    .replace(/\\log/g, 'log')
+    .replace(/\\cdot/g, '·')
+    .replace(/\\times/g, '×')
+    .replace(/[{}\\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `O(${cleaned})`;
+};
+
+const extractCode = (section: SolutionSection | undefined): Solution['code'] => {
+  if (!section) return null;
+  const match = /```([\w+#-]*)[^\n]*\n([\s\S]*?)```/.exec(section.body);
+  return match ? { language: match[1] || '', source: match[2].replace(/\n$/, '') } : null;
+};
+
+const extractGiveaways = (section: SolutionSection | undefined): string[] => {
+  if (!section) return [];
+  const quotes: string[] = [];
+  const pattern = /^\s*[-*]\s+\*\*"?([^*]+?)"?\*\*/gm;
+  let match;
+  while ((match = pattern.exec(section.body)) !== null) {
+    quotes.push(match[1].trim());
+  }
+  return quotes;
+};
+
+const extractSimilarProblems = (section: SolutionSection | undefined): SimilarProblem[] => {
+  if (!section) return [];
+  const problems: SimilarProblem[] = [];
+  const pattern = /\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g;
+  let match;
+  while ((match = pattern.exec(section.body)) !== null) {
+    problems.push({ title: match[1].trim(), url: match[2] });
+  }
+  return problems;
+};
+
+/**
+ * Returns null when the response does not have at least a summary and a
+ * solution section, e.g. when the model ignored the format.
+ */
+export const parseSolution = (markdown: string): Solution | null => {
+  const sections = splitSections(markdown);
+  const byId = (id: SolutionSectionId) => sections.find(section => section.id === id);
+
+  const summary = byId('summary');
+  const solution = byId('solution');
+  if (!summary || !solution) {
+    return null;
+  }
+
+  const giveaways = byId('giveaways');
+  return {
+    sections,
+    summary: summary.body,
+    code: extractCode(solution),
+    timeComplexity: extractComplexity(byId('timeComplexity')),
+    spaceComplexity: extractComplexity(byId('spaceComplexity')),
+    giveaways: extractGiveaways(giveaways),
+    similarProblems: extractSimilarProblems(byId('similar')),
+    ...classifySolveOutput(summary.body, `${summary.body}\n${giveaways?.body || ''}`)
+  };
+};
+
+export const sectionToMarkdown = (section: SolutionSection): string => {
+  return `${section.heading}\n\n${section.body}`;
+};
+
+/**
+ * Rebuilds the markdown with one section replaced by new markdown. The new text
+ * may or may not repeat the section header; the original header is kept if not.
+ */
+export const replaceSection = (solution: Solution, id: SolutionSectionId, replacement: string): string => {
+  const trimmed = replacement.trim();
+  const replaced = splitSections(trimmed).find(section => section.id === id);
+
+  return solution.sections
+    .map(section => {
+      if (section.id !== id) return sectionToMarkdown(section);
+      if (replaced) return sectionToMarkdown(replaced);
+      return `${section.heading}\n\n${trimmed}`;
+    })
+    .join('\n\n');
+};
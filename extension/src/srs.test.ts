@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { formatInterval, scheduleReview, type ReviewCard } from './srs'
+
+const now = new Date('2026-01-01T12:00:00.000Z');
+
+const newCard = (): ReviewCard => ({
+  id: 'https://leetcode.com/problems/two-sum/#two sum',
+  title: 'Two Sum',
+  url: 'https://leetcode.com/problems/two-sum/',
+  technique: 'Hash Map',
+  easiness: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now.toISOString(),
+  lastReviewedAt: null,
+  createdAt: now.toISOString()
+});
+
+describe('scheduleReview', () => {
+  it('spaces good reviews 1, 6, then easiness times the last interval days apart', () => {
+    const first = scheduleReview(newCard(), 'good', now);
+    const second = scheduleReview(first, 'good', now);
+    const third = scheduleReview(second, 'good', now);
+
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+    expect(third.repetitions).toBe(3);
+    expect(third.dueAt).toBe('2026-01-16T12:00:00.000Z');
+    expect(third.lastReviewedAt).toBe(now.toISOString());
+  });
+
+  it('moves easiness with the grade', () => {
+    expect(scheduleReview(newCard(), 'good', now).easiness).toBeCloseTo(2.5);
+    expect(scheduleReview(newCard(), 'easy', now).easiness).toBeCloseTo(2.6);
+    expect(scheduleReview(newCard(), 'hard', now).easiness).toBeCloseTo(2.36);
+  });
+
+  it('restarts the interval when the problem was forgotten', () => {
+    const learned = { ...newCard(), interval: 15, repetitions: 3 };
+    const forgotten = scheduleReview(learned, 'again', now);
+
+    expect(forgotten.interval).toBe(1);
+    expect(forgotten.repetitions).toBe(0);
+    expect(forgotten.dueAt).toBe('2026-01-02T12:00:00.000Z');
+  });
+
+  it('never lets easiness drop below 1.3', () => {
+    let card = newCard();
+    for (let i = 0; i < 10; i++) {
+      card = scheduleReview(card, 'again', now);
+    }
+    expect(card.easiness).toBe(1.3);
+  });
+});
+
+describe('formatInterval', () => {
+  it('uses the singular for one day', () => {
+    expect(formatInterval(1)).toBe('1 day');
+    expect(formatInterval(6)).toBe('6 days');
+  });
+});
@@ -0,0 +1,163 @@
+// Spaced-repetition review of solved problems, scheduled with SM-2 and stored
+// in chrome.storage.local next to the sessions they point to.
+
+import type { Solution } from './solution'
+import { getLocal, setLocal } from './storage'
+import { findPattern } from './taxonomy'
+
+const REVIEW_CARDS_KEY = 'reviewCards';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewCard {
+  // Same as the session id, so each saved problem has at most one card
+  id: string;
+  title: string;
+  url: string;
+  // Pattern label from the taxonomy, e.g. "Sliding Window"
+  technique: string;
+  // SM-2 state
+  easiness: number;
+  interval: number;
+  repetitions: number;
+  dueAt: string;
+  lastReviewedAt: string | null;
+  createdAt: string;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 quality (0-5) for each self-grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const REVIEW_GRADES: { id: ReviewGrade, label: string }[] = [
+  { id: 'again', label: 'Forgot' },
+  { id: 'hard', label: 'Hard' },
+  { id: 'good', label: 'Good' },
+  { id: 'easy', label: 'Easy' }
+];
+
+// Everything due before tomorrow counts as due today
+const endOfToday = (now: Date): Date => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+/**
+ * Returns the card rescheduled after a review. Forgetting restarts the
+ * interval; otherwise it grows by the card's easiness, which itself drifts
+ * with each grade but never drops below 1.3.
+ */
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now = new Date()): ReviewCard => {
+  const quality = GRADE_QUALITY[grade];
+  const easiness = Math.max(1.3, card.easiness + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  let repetitions = card.repetitions + 1;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 6;
+  } else {
+    interval = Math.round(card.interval * easiness);
+  }
+
+  return {
+    ...card,
+    easiness,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString()
+  };
+};
+
+// e.g. "1 day", "6 days"
+export const formatInterval = (days: number): string => {
+  return days === 1 ? '1 day' : `${days} days`;
+};
+
+const loadAll = async (): Promise<Record<string, ReviewCard>> => {
+  return (await getLocal<Record<string, ReviewCard>>(REVIEW_CARDS_KEY)) || {};
+};
+
+export const getReviewCard = async (id: string): Promise<ReviewCard | null> => {
+  const cards = await loadAll();
+  return cards[id] || null;
+};
+
+export const saveReviewCard = async (card: ReviewCard): Promise<void> => {
+  const cards = await loadAll();
+  await setLocal(REVIEW_CARDS_KEY, { ...cards, [card.id]: card });
+};
+
+export const deleteReviewCard = async (id: string): Promise<void> => {
+  const cards = await loadAll();
+  if (!cards[id]) return;
+  delete cards[id];
+  await setLocal(REVIEW_CARDS_KEY, cards);
+};
+
+export const listReviewCards = async (): Promise<ReviewCard[]> => {
+  return Object.values(await loadAll());
+};
+
+// Due cards, most overdue first
+export const listDueCards = async (now = new Date()): Promise<ReviewCard[]> => {
+  const cards = await loadAll();
+  const cutoff = endOfToday(now).toISOString();
+  return Object.values(cards)
+    .filter(card => card.dueAt <= cutoff)
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+};
+
+// When the first card after today is due, or null when nothing is scheduled
+export const nextDueDate = async (now = new Date()): Promise<Date | null> => {
+  const cards = await loadAll();
+  const cutoff = endOfToday(now).toISOString();
+  const upcoming = Object.values(cards)
+    .map(card => card.dueAt)
+    .filter(dueAt => dueAt > cutoff)
+    .sort();
+  return upcoming.length > 0 ? new Date(upcoming[0]) : null;
+};
+
+interface EnrollOptions {
+  id: string;
+  title: string;
+  url: string;
+  solution: Solution;
+}
+
+/**
+ * Adds a solved problem to the review queue, first due tomorrow. Problems
+ * already in the queue keep their schedule. Returns true when a card was added.
+ */
+export const enrollProblem = async (options: EnrollOptions): Promise<boolean> => {
+  if (await getReviewCard(options.id)) return false;
+
+  const pattern = options.solution.pattern ? findPattern(options.solution.pattern) : undefined;
+  const technique = pattern?.label || 'Uncategorized';
+  const now = new Date();
+  await saveReviewCard({
+    id: options.id,
+    title: options.title,
+    url: options.url,
+    technique,
+    easiness: 2.5,
+    interval: 0,
+    repetitions: 0,
+    dueAt: new Date(now.getTime() + DAY_MS).toISOString(),
+    lastReviewedAt: null,
+    createdAt: now.toISOString()
+  });
+  return true;
+};
@@ -0,0 +1,21 @@
+// Promise wrappers around chrome.storage.local
+
+export const getLocal = <T>(key: string): Promise<T | undefined> => {
+  return new Promise((resolve) => {
+    window.chrome.storage.local.get(key, (items) => {
+      resolve(items[key] as T | undefined);
+    });
+  });
+};
+
+export const setLocal = (key: string, value: unknown): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    window.chrome.storage.local.set({ [key]: value }, () => {
+      if (window.chrome.runtime.lastError) {
+        reject(new Error(window.chrome.runtime.lastError.message || 'Storage error'));
+        return;
+      }
+      resolve();
+    });
+  });
+};
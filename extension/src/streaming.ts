@@ -0,0 +1,135 @@
+// Streaming client for OpenAI-format chat completions (server-sent events)
+
+import { requestTaskCompletion, type Task, type TaskInputs, type TaskOptions } from './llm'
+import type { Settings } from './settings'
+
+export interface StreamResult {
+  content: string;
+  // 'stop' for a complete answer, 'length' when the token limit cut it off
+  finishReason: string | null;
+  // True when the user stopped generation
+  aborted: boolean;
+  // Set when the stream broke off after part of the answer arrived
+  error: string | null;
+}
+
+export interface StreamCallbacks {
+  // Called with the full text so far every time a delta arrives
+  onUpdate: (content: string) => void;
+  signal?: AbortSignal;
+}
+
+const isAbortError = (error: unknown) => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+/**
+ * Reads an SSE body line by line. Network chunks do not respect line
+ * boundaries, so the trailing partial line is kept until the next chunk.
+ */
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => boolean | void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.startsWith('data:')) return false;
+    // onData returns true once the stream is finished
+    return onData(line.slice(5).trimStart()) === true;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (handleLine(line)) return;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      handleLine(buffer);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+/**
+ * Sends a streaming request and accumulates the answer. Aborting through the
+ * signal resolves with what was generated so far instead of throwing.
+ */
+const readCompletion = async (
+  send: (signal?: AbortSignal) => Promise<Response>,
+  { onUpdate, signal }: StreamCallbacks
+): Promise<StreamResult> => {
+  const result: StreamResult = { content: '', finishReason: null, aborted: false, error: null };
+
+  try {
+    const response = await send(signal);
+    if (!response.body) {
+      throw new Error('Failed to get response reader');
+    }
+
+    await readEventStream(response.body, (data) => {
+      if (data === '[DONE]') return true;
+
+      let parsed;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        // Skip keep-alive comments and other non-JSON payloads
+        return;
+      }
+
+      if (parsed.error) {
+        const message = typeof parsed.error === 'string' ? parsed.error : parsed.error.message || JSON.stringify(parsed.error);
+        // Keep a partial answer so the user can read it and ask for the rest
+        if (result.content) {
+          result.error = message;
+          return true;
+        }
+        throw new Error(message);
+      }
+
+      const choice = parsed.choices?.[0];
+      const content = choice?.delta?.content;
+      if (content) {
+        result.content += content;
+        onUpdate(result.content);
+      }
+      if (choice?.finish_reason) {
+        result.finishReason = choice.finish_reason;
+      }
+    });
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      result.aborted = true;
+      return result;
+    }
+    throw error;
+  }
+
+  return result;
+};
+
+// A task whose prompt the proxy builds, see requestTaskCompletion
+export const streamTaskCompletion = <T extends Task>(
+  settings: Settings,
+  task: T,
+  input: TaskInputs[T],
+  callbacks: StreamCallbacks,
+  options: Omit<TaskOptions, 'stream' | 'signal'> = {}
+): Promise<StreamResult> => {
+  return readCompletion(signal => requestTaskCompletion(settings, task, input, { ...options, stream: true, signal }), callbacks);
+};
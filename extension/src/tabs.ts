@@ -0,0 +1,54 @@
+// Helpers for talking to the active tab and its content script
+
+export interface ActiveTab {
+  id: number;
+  url?: string;
+}
+
+export const getActiveTab = (): Promise<ActiveTab | null> => {
+  return new Promise((resolve) => {
+    window.chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      const currentTab = tabs[0];
+      resolve(currentTab && currentTab.id ? currentTab : null);
+    });
+  });
+};
+
+const sendMessageOnce = <T>(tabId: number, message: unknown): Promise<T | null> => {
+  return new Promise((resolve) => {
+    window.chrome.tabs.sendMessage(tabId, message, (response) => {
+      // lastError is set when no content script is listening in the tab
+      if (window.chrome.runtime.lastError) {
+        resolve(null);
+        return;
+      }
+      resolve((response as T) || null);
+    });
+  });
+};
+
+const injectContentScript = (tabId: number): Promise<boolean> => {
+  return new Promise((resolve) => {
+    window.chrome.scripting.executeScript(
+      { target: { tabId }, files: ['contentScript.js'] },
+      () => resolve(!window.chrome.runtime.lastError)
+    );
+  });
+};
+
+/**
+ * Sends a message to contentScript.js in the given tab. The script is not
+ * declared in the manifest, so it is injected into a tab the first time it is needed.
+ * Resolves to null when the page cannot be scripted (e.g. chrome:// pages).
+ */
+export const sendTabMessage = async <T>(tabId: number, message: unknown): Promise<T | null> => {
+  const response = await sendMessageOnce<T>(tabId, message);
+  if (response) {
+    return response;
+  }
+
+  if (await injectContentScript(tabId)) {
+    return sendMessageOnce<T>(tabId, message);
+  }
+  return null;
+};
@@ -0,0 +1,89 @@
+// Fixed taxonomy of problem patterns and difficulties. The solve prompt asks
+// for a "Pattern" and "Difficulty" line in the problem summary; keyword matching
+// over the rest of the solve output covers responses without one.
+
+import { PATTERN_LABELS } from '../../server/templates.js'
+
+export type PatternId = keyof typeof PATTERN_LABELS;
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface Pattern {
+  id: PatternId;
+  label: string;
+  // Matched against the solve output when the model gave no Pattern line
+  keywords: RegExp;
+}
+
+const PATTERN_KEYWORDS: Record<PatternId, RegExp> = {
+  'monotonic-stack': /monotonic (stack|queue|deque)/i,
+  'dp-intervals': /interval dp|dp on intervals|burst balloons|matrix chain/i,
+  'dp-bitmask': /bitmask dp|dp (with|over) (a )?bitmask/i,
+  'dp-2d': /2d dp|2-d dp|two-dimensional dp|dp (table|grid)|longest common subsequence|edit distance|knapsack/i,
+  'dp-1d': /dynamic programming|\bdp\b|memoiz/i,
+  'topological-sort': /topological|kahn/i,
+  'shortest-path': /dijkstra|bellman|shortest path|floyd/i,
+  'union-find': /union[- ]find|disjoint set/i,
+  'sliding-window': /sliding window/i,
+  'two-pointers': /two pointers?|fast and slow|left and right pointers?/i,
+  'prefix-sum': /prefix sums?|running sum|cumulative sum/i,
+  'binary-search': /binary search/i,
+  tries: /\btries?\b|prefix tree/i,
+  heap: /\bheap\b|priority queue|top k|k (largest|smallest)/i,
+  intervals: /merge intervals|overlapping intervals|\bintervals\b/i,
+  backtracking: /backtrack|permutations|combinations|subsets/i,
+  graphs: /\bgraph\b|\bbfs\b|\bdfs\b|breadth[- ]first|depth[- ]first|islands/i,
+  trees: /binary tree|\bbst\b|\btree\b/i,
+  'linked-list': /linked list/i,
+  stack: /\bstack\b/i,
+  greedy: /greedy/i,
+  'bit-manipulation': /\bxor\b|bit manipulation|bitwise/i,
+  'string-matching': /\bkmp\b|rabin[- ]karp|z[- ]algorithm|rolling hash/i,
+  design: /design (a|the) (class|data structure)|lru cache|implement the \w+ class/i,
+  math: /\bgcd\b|modular|prime|combinatorics|math(ematical)?\b/i,
+  'arrays-hashing': /hash ?(map|set|table)|dictionary|frequency (count|map)/i
+};
+
+// The labels and their order (more specific patterns first, so "monotonic
+// stack" wins over "stack") come from the solve prompt
+export const PATTERNS: Pattern[] = (Object.keys(PATTERN_LABELS) as PatternId[]).map(id => ({
+  id,
+  label: PATTERN_LABELS[id],
+  keywords: PATTERN_KEYWORDS[id]
+}));
+
+export const DIFFICULTIES: { id: Difficulty, label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'hard', label: 'Hard' }
+];
+
+export const findPattern = (id: PatternId): Pattern | undefined => {
+  return PATTERNS.find(pattern => pattern.id === id);
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Exact label first, then keywords, so a slightly reworded label still matches
+const matchPattern = (text: string): PatternId | null => {
+  const exact = PATTERNS.find(pattern => normalize(pattern.label) === normalize(text));
+  if (exact) return exact.id;
+  return PATTERNS.find(pattern => pattern.keywords.test(text))?.id || null;
+};
+
+/**
+ * Reads the "**Pattern:** ... · **Difficulty:** ..." line the solve prompt asks
+ * for. Without one, the pattern comes from keywords in `fallbackText`.
+ */
+export const classifySolveOutput = (
+  summary: string,
+  fallbackText: string
+): { pattern: PatternId | null, difficulty: Difficulty | null } => {
+  const patternLine = /Pattern\*{0,2}\s*:\s*\*{0,2}\s*([^·|\n*]+)/i.exec(summary);
+  const difficultyLine = /Difficulty\*{0,2}\s*:\s*\*{0,2}\s*(easy|medium|hard)\b/i.exec(summary);
+
+  return {
+    pattern: (patternLine && matchPattern(patternLine[1].trim())) || matchPattern(fallbackText),
+    difficulty: difficultyLine ? difficultyLine[1].toLowerCase() as Difficulty : null
+  };
+};
@@ -0,0 +1,20 @@
+// Translates the solution code into another supported language without a full
+// re-solve: the model gets the working code and must keep its algorithm.
+
+export interface CodeTranslation {
+  // Language id from LANGUAGES
+  language: string;
+  source: string;
+}
+
+/**
+ * The code inside the reply's first code block. Works on partial streamed
+ * output, where the closing fence has not arrived yet.
+ */
+export const extractTranslatedCode = (content: string): string => {
+  const opening = /```[^\n]*\n/.exec(content);
+  if (!opening) return '';
+  const rest = content.slice(opening.index + opening[0].length);
+  const closing = rest.indexOf('```');
+  return (closing >= 0 ? rest.slice(0, closing) : rest).replace(/\n$/, '');
+};
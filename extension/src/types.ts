@@ -0,0 +1,31 @@
+// Shared types for the side panel
+
+import type { Solution } from './solution'
+import type { TestRun } from './runner'
+import type { Verification } from './verify'
+import type { HintLevelId } from './practice'
+import type { CodeTranslation } from './translate'
+
+export type MessageType = 'user' | 'assistant' | 'system';
+
+// Message type definition
+export interface Message {
+  id: string;
+  type: MessageType;
+  content: string;
+  timestamp: Date;
+  // Parsed sections of a solve response, absent for other messages
+  solution?: Solution;
+  // Latest "Run examples" result for the solution code
+  testRun?: TestRun;
+  // Attempt log of the verify-and-fix loop
+  verification?: Verification;
+  // Which hint ladder step this message reveals
+  hintLevel?: HintLevelId;
+  // The solution code translated into other languages
+  translations?: CodeTranslation[];
+  // Always sent verbatim in follow-ups, never summarized
+  pinned?: boolean;
+  // Shown in the panel but never saved with the session, like restore notices
+  transient?: boolean;
+}
@@ -0,0 +1,188 @@
+// Verify-and-fix loop: runs a fresh solution against the problem's examples
+// plus model-written edge cases, and feeds failures back to the model for a
+// bounded number of repair rounds.
+
+import { requestTaskCompletion } from './llm'
+import { detectMode } from './harness'
+import { parseExamplesFromText, type ProblemExample } from './problem'
+import { runExamples, type TestRun } from './runner'
+import type { Settings } from './settings'
+import { parseSolution, replaceSection, type Solution } from './solution'
+import { streamTaskCompletion } from './streaming'
+
+export const MAX_REPAIR_ROUNDS = 2;
+const MAX_EDGE_CASES = 5;
+
+export interface VerificationAttempt {
+  passed: number;
+  total: number;
+  // One short line per failing test
+  failures: string[];
+  error?: string;
+}
+
+export interface Verification {
+  attempts: VerificationAttempt[];
+  verified: boolean;
+  // How many of the tests were model-written edge cases
+  edgeCases: number;
+  stopped?: boolean;
+}
+
+export interface VerifyResult {
+  content: string;
+  solution: Solution;
+  testRun: TestRun;
+  verification: Verification;
+}
+
+interface VerifyOptions {
+  content: string;
+  solution: Solution;
+  language: string;
+  problemContext: string;
+  signal: AbortSignal;
+  onProgress: (status: string) => void;
+}
+
+/**
+ * Asks the model for extra test cases in the same input format as the
+ * examples. Cases in a different shape are dropped, and a failed request just
+ * means no edge cases.
+ */
+const generateEdgeCases = async (
+  settings: Settings,
+  problemContext: string,
+  examples: ProblemExample[],
+  signal: AbortSignal
+): Promise<ProblemExample[]> => {
+  try {
+    const response = await requestTaskCompletion(settings, 'edgecases', {
+      problemText: problemContext,
+      examples
+    }, { stream: false, signal });
+    const data = await response.json();
+    const content: string = data.choices?.[0]?.message?.content || '';
+    const array = /\[[\s\S]*\]/.exec(content);
+    if (!array) return [];
+
+    const parsed: unknown[] = JSON.parse(array[0]);
+    const mode = examples.length > 0 ? detectMode(examples) : null;
+    return parsed
+      .filter((item): item is ProblemExample => {
+        const candidate = item as ProblemExample;
+        return typeof candidate?.input === 'string' && typeof candidate?.output === 'string';
+      })
+      .filter(item => !mode || detectMode([item]) === mode)
+      .slice(0, MAX_EDGE_CASES)
+      .map(item => ({ input: item.input, output: item.output }));
+  } catch (error) {
+    console.error('Failed to generate edge cases: ', error);
+    return [];
+  }
+};
+
+const summarize = (run: TestRun, exampleCount: number): VerificationAttempt => {
+  const label = (index: number) => index < exampleCount ? `Example ${index + 1}` : `Edge case ${index - exampleCount + 1}`;
+  return {
+    passed: run.results.filter(result => result.passed).length,
+    total: run.results.length,
+    failures: run.results
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) => !result.passed)
+      .map(({ result, index }) => `${label(index)}: ${result.error || `expected ${result.expected}, got ${result.actual ?? 'nothing'}`}`),
+    error: run.error
+  };
+};
+
+const failureReport = (run: TestRun, exampleCount: number, language: string): string => {
+  const failures = run.results
+    .map((result, index) => ({ result, index }))
+    .filter(({ result }) => !result.passed)
+    .map(({ result, index }) => {
+      const kind = index < exampleCount ? 'example from the problem' : 'generated edge case';
+      const outcome = result.error ? `Error: ${result.error}` : `Actual: ${result.actual ?? '(no output)'}`;
+      return `Test ${index + 1} (${kind})\nInput: ${result.input}\nExpected: ${result.expected}\n${outcome}`;
+    });
+
+  return `I ran your solution and it failed these tests:
+
+${run.error ? `Run error:\n${run.error}\n\n` : ''}${failures.join('\n\n')}
+
+Expected outputs of generated edge cases can occasionally be wrong; the problem statement and its own examples always win.
+Fix the code. Reply with ONLY the corrected "## ✅ Solution" section: the header followed by the complete code in a single \`\`\`${language} code block.`;
+};
+
+const allPassed = (run: TestRun) => !run.error && run.results.length > 0 && run.results.every(result => result.passed);
+
+/**
+ * Runs the solution and repairs it until every test passes or the rounds run
+ * out. Returns null when there is nothing to test against or no code to run.
+ * Stopping through the signal keeps the best code found so far.
+ */
+export const verifyAndRepair = async (settings: Settings, options: VerifyOptions): Promise<VerifyResult | null> => {
+  const { language, problemContext, signal, onProgress } = options;
+  if (!options.solution.code) return null;
+
+  const examples = parseExamplesFromText(problemContext);
+  onProgress('🧪 Writing edge cases...');
+  const edgeCases = await generateEdgeCases(settings, problemContext, examples, signal);
+  const cases = [...examples, ...edgeCases];
+  if (cases.length === 0) return null;
+
+  let content = options.content;
+  let solution = options.solution;
+  const attempts: VerificationAttempt[] = [];
+  // A repair can make things worse, so the version passing the most tests wins
+  let best: { content: string, solution: Solution, testRun: TestRun, passed: number } | null = null;
+  const finish = (stopped = false): VerifyResult => ({
+    content: best!.content,
+    solution: best!.solution,
+    testRun: best!.testRun,
+    verification: { attempts, verified: allPassed(best!.testRun), edgeCases: edgeCases.length, stopped }
+  });
+
+  for (let round = 0; ; round++) {
+    const code = solution.code!;
+    onProgress(round === 0 ? `🧪 Running ${cases.length} tests...` : `🧪 Re-running tests (fix ${round}/${MAX_REPAIR_ROUNDS})...`);
+    const testRun = await runExamples(settings, {
+      language: code.language || language,
+      code: code.source,
+      examples: cases,
+      statement: problemContext
+    });
+    const attempt = summarize(testRun, examples.length);
+    attempts.push(attempt);
+    if (!best || attempt.passed > best.passed) {
+      best = { content, solution, testRun, passed: attempt.passed };
+    }
+
+    // No results means the runner itself failed, which no code change can fix
+    if (allPassed(testRun) || testRun.results.length === 0 || round >= MAX_REPAIR_ROUNDS) {
+      return finish();
+    }
+    if (signal.aborted) {
+      return finish(true);
+    }
+
+    onProgress(`🔧 Fixing ${attempt.failures.length} failing tests (round ${round + 1}/${MAX_REPAIR_ROUNDS})...`);
+    // Same shape as a follow-up question about the answer
+    const reply = await streamTaskCompletion(settings, 'followup', {
+      problemText: problemContext,
+      language,
+      history: [{ role: 'assistant', content }],
+      question: failureReport(testRun, examples.length, language)
+    }, { onUpdate: () => {}, signal }, { maxTokens: 2000 });
+    if (reply.aborted) {
+      return finish(true);
+    }
+
+    const repairedContent = replaceSection(solution, 'solution', reply.content);
+    const repaired = parseSolution(repairedContent);
+    if (!repaired?.code) {
+      return finish();
+    }
+    content = repairedContent;
+    solution = repaired;
+  }
+};
@@ -1,12 +1,41 @@
-import { defineConfig } from 'vite'
+import { readFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { createRequire } from 'node:module'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// What public/sandbox.js needs to run Python offline, copied to dist/pyodide/
+const PYODIDE_FILES = ['pyodide.js', 'pyodide.asm.js', 'pyodide.asm.wasm', 'python_stdlib.zip', 'pyodide-lock.json']
+
+const bundlePyodide = (): Plugin => ({
+  name: 'bundle-pyodide',
+  apply: 'build',
+  generateBundle() {
+    const pyodideDir = dirname(createRequire(import.meta.url).resolve('pyodide/pyodide.asm.wasm'))
+    for (const file of PYODIDE_FILES) {
+      this.emitFile({ type: 'asset', fileName: `pyodide/${file}`, source: readFileSync(join(pyodideDir, file)) })
+    }
+  },
+})
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), bundlePyodide()],
   base: './',
+  // The prompt templates are imported from the proxy's sources (src/prompts.ts)
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
+    rollupOptions: {
+      input: {
+        main: 'index.html',
+        options: 'options.html',
+      },
+    },
   }
 })
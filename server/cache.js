@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { log } from './logger.js';
+import { metrics } from './metrics.js';
+
+// Response cache for chat completions and OCR. Backends share one async
+// interface (get, set) over JSON values; CACHE_BACKEND picks one. A cache
+// failure is logged and treated as a miss, it never fails the request.
+
+function numberFromEnv(name, fallback) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const CACHE_TTL = numberFromEnv('CACHE_TTL_MINUTES', 60) * 60 * 1000;
+const MAX_MEMORY_ENTRIES = numberFromEnv('CACHE_MAX_ENTRIES', 1000);
+const CACHE_DIR = process.env.CACHE_DIR || path.join(os.tmpdir(), 'dsa-solver-cache');
+const REDIS_PREFIX = 'dsa-solver:cache:';
+
+// Least recently used entries go first once the map is full
+const memory = {
+  name: 'memory',
+  isConfigured: () => true,
+  describe: () => `in-memory LRU, ${MAX_MEMORY_ENTRIES} items`,
+
+  create() {
+    const entries = new Map();
+
+    return {
+      async get(key) {
+        const entry = entries.get(key);
+        if (!entry) return null;
+
+        entries.delete(key);
+        if (entry.expiresAt <= Date.now()) return null;
+        // Re-inserting moves the entry to the most recently used end
+        entries.set(key, entry);
+        return entry.value;
+      },
+
+      async set(key, value, ttl) {
+        entries.delete(key);
+        entries.set(key, { value, expiresAt: Date.now() + ttl });
+        while (entries.size > MAX_MEMORY_ENTRIES) {
+          entries.delete(entries.keys().next().value);
+        }
+      }
+    };
+  }
+};
+
+// One JSON file per entry. Survives restarts on a long-running server; on
+// Vercel only /tmp is writable and it lasts as long as the instance.
+const files = {
+  name: 'fs',
+  isConfigured: () => true,
+  describe: () => `files in ${CACHE_DIR}`,
+
+  create() {
+    const fileFor = (key) => path.join(CACHE_DIR, `${key}.json`);
+
+    // Expired files are only removed when read, sweep the rest now and then
+    setInterval(async () => {
+      try {
+        for (const name of await fs.readdir(CACHE_DIR)) {
+          const file = path.join(CACHE_DIR, name);
+          const { expiresAt } = JSON.parse(await fs.readFile(file, 'utf8'));
+          if (expiresAt <= Date.now()) await fs.rm(file, { force: true });
+        }
+      } catch {
+        // Missing directory or a file written mid-sweep, try again next time
+      }
+    }, 60 * 60 * 1000).unref();
+
+    return {
+      async get(key) {
+        let entry;
+        try {
+          entry = JSON.parse(await fs.readFile(fileFor(key), 'utf8'));
+        } catch (error) {
+          if (error.code === 'ENOENT') return null;
+          throw error;
+        }
+        if (entry.expiresAt <= Date.now()) {
+          await fs.rm(fileFor(key), { force: true });
+          return null;
+        }
+        return entry.value;
+      },
+
+      async set(key, value, ttl) {
+        await fs.mkdir(CACHE_DIR, { recursive: true });
+        // Write then rename, so a reader never sees half a file
+        const temp = `${fileFor(key)}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify({ value, expiresAt: Date.now() + ttl }));
+        await fs.rename(temp, fileFor(key));
+      }
+    };
+  }
+};
+
+// Shared between instances, so serverless cold starts keep their cache
+const redis = {
+  name: 'redis',
+  isConfigured: () => !!process.env.REDIS_URL,
+  describe: () => `Redis at ${new URL(process.env.REDIS_URL).host}`,
+
+  create() {
+    let connection = null;
+
+    // One shared connection, retried on the next request if it fails
+    const connect = () => {
+      connection ||= (async () => {
+        // Only loaded when Redis is the backend
+        const { createClient } = await import('redis');
+        // Fail fast instead of holding requests while Redis is unreachable
+        const client = createClient({
+          url: process.env.REDIS_URL,
+          disableOfflineQueue: true,
+          socket: { connectTimeout: 2000, reconnectStrategy: (retries) => (retries < 3 ? 200 : false) }
+        });
+        client.on('error', (error) => log.error('Redis error', { error }));
+        // The client gives up after the retries above, start over on the next request
+        client.on('end', () => {
+          connection = null;
+        });
+        await client.connect();
+        return client;
+      })().catch((error) => {
+        connection = null;
+        throw error;
+      });
+      return connection;
+    };
+
+    return {
+      async get(key) {
+        const value = await (await connect()).get(REDIS_PREFIX + key);
+        return value ? JSON.parse(value) : null;
+      },
+
+      async set(key, value, ttl) {
+        await (await connect()).set(REDIS_PREFIX + key, JSON.stringify(value), { PX: ttl });
+      }
+    };
+  }
+};
+
+export const cacheBackends = { memory, fs: files, redis };
+
+/**
+ * Picks the backend from CACHE_BACKEND, falling back to memory when the
+ * requested one is unknown or not configured.
+ */
+export function resolveCacheBackend() {
+  const requested = cacheBackends[process.env.CACHE_BACKEND];
+  if (requested?.isConfigured()) {
+    return requested;
+  }
+  if (process.env.CACHE_BACKEND) {
+    log.warn('Cache backend is unknown or not configured, using memory', { requested: process.env.CACHE_BACKEND });
+  }
+  return memory;
+}
+
+const backend = resolveCacheBackend();
+const store = backend.create();
+
+export const cacheInfo = () => ({ backend: backend.name, description: backend.describe(), ttlMinutes: CACHE_TTL / 60000 });
+
+export async function getCached(key) {
+  try {
+    const value = await store.get(key);
+    metrics.cacheLookups.inc({ result: value ? 'hit' : 'miss' });
+    log.info(value ? 'Cache hit' : 'Cache miss', { key: key.substring(0, 8) });
+    return value;
+  } catch (error) {
+    metrics.cacheLookups.inc({ result: 'miss' });
+    log.error('Cache read failed', { error });
+    return null;
+  }
+}
+
+export async function setCached(key, value) {
+  try {
+    await store.set(key, value, CACHE_TTL);
+    log.info('Cached result', { key: key.substring(0, 8) });
+  } catch (error) {
+    log.error('Cache write failed', { error });
+  }
+}
+
+// For the readiness check: unlike getCached, a failing backend throws
+export async function checkCache() {
+  await store.get('readiness-check');
+}
+
+export function generateCacheKey(data) {
+  return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+/**
+ * Text as it matters for a cache key: OCR of the same problem differs in
+ * trailing spaces, blank lines, line endings, zero-width characters and
+ * lookalike Unicode forms, none of which change the answer. Indentation is
+ * kept, in Python it changes what the code does.
+ */
+export function normalizeText(text) {
+  return text
+    .normalize('NFKC')
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00A0]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+/, '')
+    .trimEnd();
+}
+
+function normalizeContent(content) {
+  if (typeof content === 'string') return normalizeText(content);
+  // null content (tool calls) or anything else unexpected goes into the key as is
+  if (!Array.isArray(content)) return content;
+  return content.map((part) => (part?.type === 'text' && typeof part.text === 'string'
+    ? { ...part, text: normalizeText(part.text) }
+    : part));
+}
+
+// Messages with normalized text, for keys only; the provider gets the originals
+export function normalizeMessages(messages) {
+  return messages.map(({ role, content }) => ({ role, content: normalizeContent(content) }));
+}
@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import { metrics } from './metrics.js';
+
+// Abuse protection for the proxy: per-install tokens, token-bucket rate limits,
+// daily quotas, and caps on which models and how many tokens a request may use.
+// State lives in memory, so limits are per server instance.
+
+function numberFromEnv(name, fallback) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const limits = {
+  requestsPerMinute: numberFromEnv('RATE_LIMIT_PER_MINUTE', 20),
+  burst: numberFromEnv('RATE_LIMIT_BURST', 10),
+  dailyRequests: numberFromEnv('DAILY_REQUEST_QUOTA', 300),
+  // Counted from the max tokens each chat request asks for, an upper bound on what it can cost
+  dailyCompletionTokens: numberFromEnv('DAILY_TOKEN_QUOTA', 300000),
+  maxCompletionTokens: numberFromEnv('MAX_COMPLETION_TOKENS', 4000),
+  maxPromptChars: numberFromEnv('MAX_PROMPT_CHARS', 200000),
+  maxOcrImages: numberFromEnv('MAX_OCR_IMAGES', 4),
+  installsPerHour: numberFromEnv('INSTALLS_PER_HOUR_PER_IP', 5)
+};
+
+// Without a configured secret, tokens stop working when the server restarts
+// and the extension quietly asks for a new one
+const INSTALL_SECRET = process.env.INSTALL_SECRET || crypto.randomBytes(32).toString('hex');
+export const hasInstallSecret = !!process.env.INSTALL_SECRET;
+
+export class LimitError extends Error {
+  constructor(message, status, code, retryAfter = null) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    // Seconds, sent as the Retry-After header
+    this.retryAfter = retryAfter;
+  }
+}
+
+function sign(installId) {
+  return crypto.createHmac('sha256', INSTALL_SECRET).update(installId).digest('base64url');
+}
+
+// Tokens are "<install id>.<signature>", so checking one needs no storage
+export function issueInstallToken() {
+  const installId = crypto.randomUUID();
+  return `${installId}.${sign(installId)}`;
+}
+
+export function verifyInstallToken(token) {
+  const [installId, signature] = String(token || '').split('.');
+  if (!installId || !signature) return null;
+
+  const expected = Buffer.from(sign(installId));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? installId : null;
+}
+
+// Token bucket: `capacity` requests at once, refilled at `perSecond`
+function createBuckets(capacity, perSecond) {
+  const buckets = new Map();
+
+  return {
+    // Returns 0 when a token was taken, otherwise the seconds until one is available
+    take(key, now = Date.now()) {
+      const bucket = buckets.get(key) || { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / perSecond);
+    },
+
+    // Full buckets carry no information, drop them so the map does not grow forever
+    prune(now = Date.now()) {
+      for (const [key, bucket] of buckets) {
+        if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * perSecond >= capacity) {
+          buckets.delete(key);
+        }
+      }
+    }
+  };
+}
+
+const requestBuckets = createBuckets(limits.burst, limits.requestsPerMinute / 60);
+const installBuckets = createBuckets(limits.installsPerHour, limits.installsPerHour / 3600);
+setInterval(() => {
+  requestBuckets.prune();
+  installBuckets.prune();
+}, 10 * 60 * 1000).unref();
+
+// Usage per install for the current UTC day
+const usage = new Map();
+
+function todaysUsage(installId, now = new Date()) {
+  const day = now.toISOString().slice(0, 10);
+  let entry = usage.get(installId);
+  if (!entry || entry.day !== day) {
+    entry = { day, requests: 0, completionTokens: 0 };
+    usage.set(installId, entry);
+  }
+  return entry;
+}
+
+function secondsUntilMidnightUTC(now = new Date()) {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+// Old days are never read again
+setInterval(() => {
+  const day = new Date().toISOString().slice(0, 10);
+  for (const [installId, entry] of usage) {
+    if (entry.day !== day) usage.delete(installId);
+  }
+}, 60 * 60 * 1000).unref();
+
+export function limitInstallIssuing(ip) {
+  const retryAfter = installBuckets.take(ip || 'unknown');
+  if (retryAfter) {
+    throw new LimitError('Too many installs from this address', 429, 'rate_limited', retryAfter);
+  }
+}
+
+/**
+ * Counts one request against the install's rate limit and daily quota.
+ * Throws a 429 LimitError when either is used up.
+ */
+export function takeRequest(installId) {
+  const entry = todaysUsage(installId);
+  if (entry.requests >= limits.dailyRequests) {
+    throw new LimitError(`Daily limit of ${limits.dailyRequests} requests reached`, 429, 'quota_exceeded', secondsUntilMidnightUTC());
+  }
+
+  const retryAfter = requestBuckets.take(installId);
+  if (retryAfter) {
+    throw new LimitError(`Rate limit of ${limits.requestsPerMinute} requests per minute reached`, 429, 'rate_limited', retryAfter);
+  }
+  entry.requests++;
+}
+
+export function chargeCompletionTokens(installId, tokens) {
+  const entry = todaysUsage(installId);
+  if (entry.completionTokens + tokens > limits.dailyCompletionTokens) {
+    throw new LimitError(`Daily limit of ${limits.dailyCompletionTokens} tokens reached`, 429, 'quota_exceeded', secondsUntilMidnightUTC());
+  }
+  entry.completionTokens += tokens;
+}
+
+// "openai:gpt-4o-mini" or just "gpt-4o-mini" for any provider
+function parseAllowedModels(value) {
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+export function isModelAllowed(provider, model) {
+  if (process.env.ALLOWED_MODELS) {
+    const allowed = parseAllowedModels(process.env.ALLOWED_MODELS);
+    return allowed.includes(model) || allowed.includes(`${provider.name}:${model}`);
+  }
+  // Providers without a list (the local one) cost nothing per token
+  return !provider.allowedModels || provider.allowedModels.includes(model);
+}
+
+/**
+ * Validates a chat request against the model allowlist and size caps and
+ * returns the max completion tokens to use, clamped to the server cap.
+ */
+export function checkChatRequest(provider, model, messages, maxTokens) {
+  if (!isModelAllowed(provider, model)) {
+    throw new LimitError(`Model ${model} is not allowed on this server`, 403, 'model_not_allowed');
+  }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new LimitError('messages must be a non-empty array', 400, 'bad_request');
+  }
+  if (JSON.stringify(messages).length > limits.maxPromptChars) {
+    throw new LimitError(`Prompt is larger than ${limits.maxPromptChars} characters`, 413, 'prompt_too_large');
+  }
+  return Math.min(Number(maxTokens) || limits.maxCompletionTokens, limits.maxCompletionTokens);
+}
+
+/**
+ * Validates an /api/vision body against the image cap and returns the number
+ * of images it holds.
+ */
+export function checkVisionRequest(body) {
+  const requests = body?.requests;
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new LimitError('requests must be a non-empty array', 400, 'bad_request');
+  }
+  if (requests.length > limits.maxOcrImages) {
+    throw new LimitError(`At most ${limits.maxOcrImages} images per request`, 413, 'too_many_images');
+  }
+  return requests.length;
+}
+
+function installIdFrom(req) {
+  return verifyInstallToken((req.headers.authorization || '').replace(/^Bearer\s+/i, ''));
+}
+
+/**
+ * Express middleware: rejects requests without a valid install token and
+ * counts the rest against the install's limits. Sets req.installId.
+ */
+export function requireInstall(req, res, next) {
+  const installId = installIdFrom(req);
+  if (!installId) {
+    return res.status(401).json({ error: 'Missing or invalid install token', code: 'invalid_install_token' });
+  }
+
+  try {
+    takeRequest(installId);
+  } catch (error) {
+    return sendLimitError(res, error);
+  }
+  req.installId = installId;
+  next();
+}
+
+/**
+ * Express middleware for routes that cost nothing upstream, like the prompt
+ * templates: the install token is checked and req.installId set, but the
+ * request is not counted against the install's limits.
+ */
+export function identifyInstall(req, res, next) {
+  const installId = installIdFrom(req);
+  if (!installId) {
+    return res.status(401).json({ error: 'Missing or invalid install token', code: 'invalid_install_token' });
+  }
+  req.installId = installId;
+  next();
+}
+
+export function sendLimitError(res, error) {
+  metrics.limitRejections.inc({ code: error.code });
+  if (error.retryAfter) {
+    res.set('Retry-After', String(error.retryAfter));
+  }
+  return res.status(error.status).json({ error: error.message, code: error.code, retryAfter: error.retryAfter });
+}
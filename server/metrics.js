@@ -0,0 +1,151 @@
+// In-process metrics in the Prometheus text format, plus a JSON summary for
+// /stats. Like the limits, they are per server instance and start from zero
+// on every cold start.
+
+const registry = new Map();
+
+// Seconds; chat completions run long, so the buckets go up to two minutes
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+function labelKey(labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels) {
+  const entries = Object.entries(labels).filter(([, value]) => value !== undefined && value !== null);
+  if (entries.length === 0) return '';
+  const escape = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(',')}}`;
+}
+
+function counter(name, help) {
+  const series = new Map();
+  registry.set(name, { type: 'counter', help, series });
+
+  return {
+    inc(labels = {}, amount = 1) {
+      const key = labelKey(labels);
+      const entry = series.get(key) || { labels, value: 0 };
+      entry.value += amount;
+      series.set(key, entry);
+    }
+  };
+}
+
+function histogram(name, help, buckets = DURATION_BUCKETS) {
+  const series = new Map();
+  registry.set(name, { type: 'histogram', help, series, buckets });
+
+  return {
+    observe(labels, value) {
+      const key = labelKey(labels);
+      const entry = series.get(key) || { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    }
+  };
+}
+
+export const metrics = {
+  httpRequests: counter('http_requests_total', 'HTTP requests by route, method and status'),
+  httpDuration: histogram('http_request_duration_seconds', 'Time to finish an HTTP response, by route'),
+  upstreamRequests: counter('upstream_requests_total', 'Requests to LLM providers by provider, model and status'),
+  upstreamLatency: histogram('upstream_latency_seconds', 'Time until an LLM provider starts answering, by provider'),
+  tokens: counter('llm_tokens_total', 'Tokens reported by LLM providers, by provider, model and type (prompt or completion)'),
+  cacheLookups: counter('cache_lookups_total', 'Response cache lookups by result (hit or miss)'),
+  limitRejections: counter('limit_rejections_total', 'Requests refused by rate limits, quotas or caps, by code')
+};
+
+// Records one provider call; usage is the OpenAI `usage` object when the provider sent one
+export function recordUpstreamCall({ provider, model, status, latencyMs, usage }) {
+  metrics.upstreamRequests.inc({ provider, model, status });
+  metrics.upstreamLatency.observe({ provider }, latencyMs / 1000);
+  if (usage) {
+    metrics.tokens.inc({ provider, model, type: 'prompt' }, usage.prompt_tokens || 0);
+    metrics.tokens.inc({ provider, model, type: 'completion' }, usage.completion_tokens || 0);
+  }
+}
+
+export function renderPrometheus() {
+  const lines = [];
+  for (const [name, metric] of registry) {
+    lines.push(`# HELP ${name} ${metric.help}`, `# TYPE ${name} ${metric.type}`);
+
+    for (const entry of metric.series.values()) {
+      if (metric.type === 'counter') {
+        lines.push(`${name}${formatLabels(entry.labels)} ${entry.value}`);
+        continue;
+      }
+      // Prometheus buckets are cumulative, observe() already counts every bucket a value fits in
+      metric.buckets.forEach((bound, i) => {
+        lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: bound })} ${entry.counts[i]}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+      lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+      lines.push(`${name}_count${formatLabels(entry.labels)} ${entry.count}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function total(name, filter = () => true) {
+  return [...registry.get(name).series.values()]
+    .filter((entry) => filter(entry.labels))
+    .reduce((sum, entry) => sum + entry.value, 0);
+}
+
+// Totals grouped by one label, e.g. tokens per provider
+function totalsBy(name, label, filter = () => true) {
+  const totals = {};
+  for (const entry of registry.get(name).series.values()) {
+    if (!filter(entry.labels)) continue;
+    const key = entry.labels[label];
+    totals[key] = (totals[key] || 0) + entry.value;
+  }
+  return totals;
+}
+
+function averageSeconds(name) {
+  const entries = [...registry.get(name).series.values()];
+  const count = entries.reduce((sum, entry) => sum + entry.count, 0);
+  return count ? entries.reduce((sum, entry) => sum + entry.sum, 0) / count : null;
+}
+
+const startedAt = Date.now();
+
+// The same numbers summed up for people, for /stats
+export function statsSnapshot() {
+  const hits = total('cache_lookups_total', (labels) => labels.result === 'hit');
+  const lookups = total('cache_lookups_total');
+
+  return {
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    requests: {
+      total: total('http_requests_total'),
+      byStatus: totalsBy('http_requests_total', 'status'),
+      byRoute: totalsBy('http_requests_total', 'route'),
+      averageSeconds: averageSeconds('http_request_duration_seconds')
+    },
+    upstream: {
+      total: total('upstream_requests_total'),
+      byProvider: totalsBy('upstream_requests_total', 'provider'),
+      errors: total('upstream_requests_total', (labels) => labels.status >= 400),
+      averageLatencySeconds: averageSeconds('upstream_latency_seconds')
+    },
+    tokens: {
+      prompt: total('llm_tokens_total', (labels) => labels.type === 'prompt'),
+      completion: total('llm_tokens_total', (labels) => labels.type === 'completion'),
+      byModel: totalsBy('llm_tokens_total', 'model')
+    },
+    cache: {
+      hits,
+      misses: lookups - hits,
+      hitRatio: lookups ? hits / lookups : null
+    },
+    limitRejections: totalsBy('limit_rejections_total', 'code')
+  };
+}
@@ -0,0 +1,160 @@
+import { getProvider } from './providers.js';
+import { isModelAllowed } from './limits.js';
+import { fetchUpstream } from './upstream.js';
+
+// OCR backends for /api/vision. Every engine takes and returns the Google Vision
+// images:annotate shape, so the extension does not care which one runs.
+
+const LLM_OCR_PROMPT = `Transcribe all text in this screenshot of a coding problem exactly as it appears.
+Keep line breaks, indentation of code, exponents (write 10^5), subscripts and symbols.
+Output only the transcribed text, with no commentary and no markdown fences.`;
+
+const LLM_OCR_MAX_TOKENS = 4000;
+
+// Wraps plain text in the Vision response shape the extension reads
+function toVisionResponse(texts) {
+  return {
+    responses: texts.map((text) => (text
+      ? { textAnnotations: [{ description: text }], fullTextAnnotation: { text } }
+      : {}))
+  };
+}
+
+function imagesFrom(body) {
+  return (body.requests || []).map((request) => request.image?.content || '');
+}
+
+const google = {
+  name: 'google',
+  isConfigured: () => !!process.env.GOOGLE_VISION_API_KEY,
+
+  // Google Vision already speaks this format, pass the request straight through
+  async annotate(body) {
+    const response = await fetchUpstream('google-vision', `https://vision.googleapis.com/v1/images:annotate?key=${process.env.GOOGLE_VISION_API_KEY}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new OcrError(errorText, response.status);
+    }
+    return response.json();
+  }
+};
+
+// One worker per process, created on first use. tesseract.js is loaded lazily
+// so deployments that never use it do not pay for it on cold start.
+let tesseractWorker = null;
+
+async function getTesseractWorker() {
+  if (!tesseractWorker) {
+    tesseractWorker = import('tesseract.js')
+      .then(({ createWorker }) => createWorker(process.env.TESSERACT_LANG || 'eng'))
+      .catch((error) => {
+        tesseractWorker = null;
+        throw error;
+      });
+  }
+  return tesseractWorker;
+}
+
+const tesseract = {
+  name: 'tesseract',
+  isConfigured: () => true,
+
+  async annotate(body) {
+    const worker = await getTesseractWorker();
+    const texts = [];
+    for (const image of imagesFrom(body)) {
+      if (!image) {
+        texts.push('');
+        continue;
+      }
+      const { data } = await worker.recognize(Buffer.from(image, 'base64'));
+      texts.push(data.text || '');
+    }
+    return toVisionResponse(texts);
+  }
+};
+
+// Sends the screenshot to a vision-capable chat model and asks for a transcription
+const llm = {
+  name: 'llm',
+  // Charged to the install for every image, like the max tokens of a chat request
+  completionTokensPerImage: LLM_OCR_MAX_TOKENS,
+  isConfigured: () => {
+    const provider = getProvider(process.env.OCR_LLM_PROVIDER);
+    return !!provider && provider.isConfigured();
+  },
+
+  async annotate(body) {
+    const provider = getProvider(process.env.OCR_LLM_PROVIDER);
+    const model = process.env.OCR_LLM_MODEL || provider.defaultModel;
+    if (!isModelAllowed(provider, model)) {
+      throw new OcrError(`Model ${model} is not allowed on this server`, 403);
+    }
+    const texts = [];
+
+    for (const image of imagesFrom(body)) {
+      if (!image) {
+        texts.push('');
+        continue;
+      }
+
+      const request = provider.buildRequest({
+        model,
+        stream: false,
+        maxTokens: LLM_OCR_MAX_TOKENS,
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: LLM_OCR_PROMPT },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${image}` } }
+          ]
+        }]
+      });
+
+      const response = await fetchUpstream(provider.name, request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: JSON.stringify(request.body)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new OcrError(errorText, response.status);
+      }
+
+      const data = provider.toOpenAIResponse(await response.json());
+      texts.push(data.choices?.[0]?.message?.content || '');
+    }
+
+    return toVisionResponse(texts);
+  }
+};
+
+export class OcrError extends Error {
+  constructor(message, status = 500) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const ocrEngines = { google, tesseract, llm };
+
+/**
+ * Picks the OCR engine: OCR_ENGINE when set, else Google Vision when it has a
+ * key, else local Tesseract which needs no account. Clients cannot choose, the
+ * engine decides what an OCR request costs the operator.
+ */
+export function resolveOcrEngine() {
+  const requested = process.env.OCR_ENGINE;
+  if (requested) {
+    return Object.hasOwn(ocrEngines, requested) ? ocrEngines[requested] : null;
+  }
+  return google.isConfigured() ? google : tesseract;
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import { PromptError, TASKS, templates, hasTemplate, newestVersion, renderPrompt } from './templates.js';
+
+// Chooses the prompt version for the task endpoints (/api/solve, /api/hint,
+// /api/interview, /api/followup, ...). The templates themselves are in
+// templates.js. They live on the server rather than in the extension so a
+// prompt change ships with a deploy instead of a Chrome Web Store release.
+//
+// The newest version of a task is live unless PROMPT_VERSIONS pins another
+// one, and PROMPT_EXPERIMENTS splits installs between versions for A/B tests.
+
+export { PromptError, TASKS };
+
+// "solve=v1,hint=v2"
+function parsePinnedVersions(value = '') {
+  const pinned = {};
+  for (const entry of value.split(',')) {
+    const [task, version] = entry.split('=').map((part) => part.trim());
+    if (hasTemplate(task, version)) {
+      pinned[task] = version;
+    }
+  }
+  return pinned;
+}
+
+// "solve=v1:90,v2:10;followup=v1:50,v2:50" gives each version a share of installs
+function parseExperiments(value = '') {
+  const experiments = {};
+  for (const entry of value.split(';')) {
+    const [task, split] = entry.split('=').map((part) => part.trim());
+    if (!hasTemplate(task) || !split) continue;
+
+    const arms = split.split(',')
+      .map((arm) => {
+        const [version, weight] = arm.split(':').map((part) => part.trim());
+        return { version, weight: Number(weight) || 0 };
+      })
+      .filter((arm) => hasTemplate(task, arm.version) && arm.weight > 0);
+    if (arms.length > 1) {
+      experiments[task] = arms;
+    }
+  }
+  return experiments;
+}
+
+const pinnedVersions = parsePinnedVersions(process.env.PROMPT_VERSIONS);
+const experiments = parseExperiments(process.env.PROMPT_EXPERIMENTS);
+
+function liveVersion(task) {
+  return pinnedVersions[task] || newestVersion(task);
+}
+
+// The same install always lands in the same arm, so a user does not flip between prompts
+function experimentVersion(task, installId) {
+  const arms = experiments[task];
+  const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let point = crypto.createHash('sha256').update(`${task}:${installId}`).digest().readUInt32BE(0) % total;
+  for (const arm of arms) {
+    if (point < arm.weight) return arm.version;
+    point -= arm.weight;
+  }
+  return arms[0].version;
+}
+
+// Versions in use per task, for /test
+export function promptVersions() {
+  return Object.fromEntries(TASKS.map((task) => [task, {
+    live: liveVersion(task),
+    available: Object.keys(templates[task]),
+    experiment: experiments[task] || null
+  }]));
+}
+
+/**
+ * Builds the messages for a task from its template. `requestedVersion` lets a
+ * caller compare versions side by side; otherwise the install's experiment arm
+ * or the live version is used.
+ */
+export function buildTaskPrompt(task, body, installId, requestedVersion) {
+  if (!hasTemplate(task)) {
+    throw new PromptError(`Unknown task: ${task}`, 404);
+  }
+  if (requestedVersion && !hasTemplate(task, requestedVersion)) {
+    throw new PromptError(`Unknown ${task} prompt version: ${requestedVersion}`);
+  }
+
+  const version = requestedVersion || (experiments[task] ? experimentVersion(task, installId) : liveVersion(task));
+  return renderPrompt(task, version, body);
+}
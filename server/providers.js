@@ -0,0 +1,340 @@
+// LLM provider layer. Every provider is exposed to the extension in the OpenAI
+// chat completions format (including the SSE stream), so the client only ever
+// parses one response shape.
+
+// OpenAI-compatible endpoints (OpenAI itself, Ollama, llama.cpp, LM Studio...)
+function openAICompatible({ name, baseUrl, apiKey, defaultModel, allowedModels = null, maxTokensField = 'max_completion_tokens', streamUsage = false }) {
+  const authHeaders = () => (apiKey() ? { Authorization: `Bearer ${apiKey()}` } : {});
+
+  return {
+    name,
+    defaultModel,
+    allowedModels,
+    isConfigured: () => !!baseUrl() && (name !== 'openai' || !!apiKey()),
+
+    buildRequest({ model, messages, stream, maxTokens }) {
+      const headers = { 'Content-Type': 'application/json', ...authHeaders() };
+
+      const body = { model, messages, stream };
+      if (maxTokens) {
+        body[maxTokensField] = maxTokens;
+      }
+      // Adds a last chunk with the token usage, which streams leave out otherwise
+      if (stream && streamUsage) {
+        body.stream_options = { include_usage: true };
+      }
+
+      return {
+        url: `${baseUrl().replace(/\/$/, '')}/chat/completions`,
+        headers,
+        body
+      };
+    },
+
+    // Cheap authenticated GET for the readiness check
+    buildHealthRequest: () => ({
+      url: `${baseUrl().replace(/\/$/, '')}/models`,
+      headers: authHeaders()
+    }),
+
+    // Already in the OpenAI format
+    toOpenAIResponse: (data) => data,
+    createStreamTransformer: () => (line) => [line]
+  };
+}
+
+const anthropic = {
+  name: 'anthropic',
+  defaultModel: 'claude-3-5-haiku-latest',
+  // Models the server pays for, unless ALLOWED_MODELS overrides it (see limits.js)
+  allowedModels: ['claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest', 'claude-sonnet-4-0'],
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+
+  buildRequest({ model, messages, stream, maxTokens }) {
+    // Anthropic takes the system prompt separately from the conversation
+    const system = messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const conversation = messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role, content: toAnthropicContent(m.content) }));
+
+    const body = {
+      model,
+      messages: conversation,
+      max_tokens: maxTokens || 2000,
+      stream
+    };
+    if (system) {
+      body.system = system;
+    }
+
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY,
+        'anthropic-version': '2023-06-01'
+      },
+      body
+    };
+  },
+
+  buildHealthRequest: () => ({
+    url: 'https://api.anthropic.com/v1/models',
+    headers: {
+      'x-api-key': process.env.ANTHROPIC_API_KEY,
+      'anthropic-version': '2023-06-01'
+    }
+  }),
+
+  toOpenAIResponse(data) {
+    const content = (data.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+    return {
+      id: data.id,
+      object: 'chat.completion',
+      model: data.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: mapAnthropicStopReason(data.stop_reason)
+      }],
+      usage: data.usage && {
+        prompt_tokens: data.usage.input_tokens,
+        completion_tokens: data.usage.output_tokens,
+        total_tokens: data.usage.input_tokens + data.usage.output_tokens
+      }
+    };
+  },
+
+  // Converts Anthropic stream events into OpenAI chat.completion.chunk events
+  createStreamTransformer() {
+    // Input tokens arrive at the start, output tokens with the final delta
+    const usage = { prompt_tokens: 0, completion_tokens: 0 };
+
+    const transform = (line) => {
+      if (!line.startsWith('data: ')) return [];
+
+      let event;
+      try {
+        event = JSON.parse(line.slice(6));
+      } catch {
+        return [];
+      }
+
+      if (event.type === 'message_start') {
+        usage.prompt_tokens = event.message?.usage?.input_tokens || 0;
+        return [];
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        return [openAIChunk({ content: event.delta.text }, null)];
+      }
+      if (event.type === 'message_delta') {
+        usage.completion_tokens = event.usage?.output_tokens || usage.completion_tokens;
+        return event.delta?.stop_reason ? [openAIChunk({}, mapAnthropicStopReason(event.delta.stop_reason))] : [];
+      }
+      if (event.type === 'message_stop') {
+        // Same shape as OpenAI's include_usage chunk
+        return [
+          `data: ${JSON.stringify({
+            object: 'chat.completion.chunk',
+            choices: [],
+            usage: { ...usage, total_tokens: usage.prompt_tokens + usage.completion_tokens }
+          })}`,
+          'data: [DONE]'
+        ];
+      }
+      if (event.type === 'error') {
+        return [`data: ${JSON.stringify({ error: event.error })}`];
+      }
+      return [];
+    };
+
+    // Each SSE event is terminated by a blank line
+    return (line) => transform(line).flatMap((out) => [out, '']);
+  }
+};
+
+// OpenAI-style image parts (data URLs) become Anthropic base64 image blocks
+function toAnthropicContent(content) {
+  if (!Array.isArray(content)) return content;
+
+  return content.map((part) => {
+    if (part.type !== 'image_url') return part;
+    const match = /^data:([^;]+);base64,(.*)$/.exec(part.image_url?.url || '');
+    if (!match) {
+      return { type: 'image', source: { type: 'url', url: part.image_url?.url } };
+    }
+    return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+  });
+}
+
+function mapAnthropicStopReason(reason) {
+  if (reason === 'max_tokens') return 'length';
+  if (reason === 'end_turn' || reason === 'stop_sequence') return 'stop';
+  return reason || null;
+}
+
+function openAIChunk(delta, finishReason) {
+  return `data: ${JSON.stringify({
+    object: 'chat.completion.chunk',
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  })}`;
+}
+
+export const providers = {
+  openai: openAICompatible({
+    name: 'openai',
+    baseUrl: () => 'https://api.openai.com/v1',
+    apiKey: () => process.env.OPENAI_API_KEY,
+    defaultModel: 'gpt-4o-mini',
+    allowedModels: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'o3-mini'],
+    streamUsage: true
+  }),
+  anthropic,
+  local: openAICompatible({
+    name: 'local',
+    baseUrl: () => process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    apiKey: () => process.env.LOCAL_LLM_API_KEY,
+    defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    // Ollama and llama.cpp only understand the older max_tokens field
+    maxTokensField: 'max_tokens'
+  })
+};
+
+// Names come from requests, so only own keys count: "constructor" is not a provider
+function findProvider(name) {
+  return Object.hasOwn(providers, name) ? providers[name] : null;
+}
+
+export function getProvider(name) {
+  return findProvider(name || 'openai');
+}
+
+/**
+ * The models to try, in order, when the requested one cannot answer: the
+ * MODEL_FALLBACKS list ("anthropic:claude-3-5-haiku-latest,local"), where a
+ * bare provider name means its default model. Unconfigured providers and the
+ * requested model itself are left out.
+ */
+export function fallbackModels(provider, model) {
+  return (process.env.MODEL_FALLBACKS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, ...rest] = entry.split(':');
+      const fallback = findProvider(name);
+      return fallback && { provider: fallback, model: rest.join(':') || fallback.defaultModel };
+    })
+    .filter((candidate) => candidate
+      && candidate.provider.isConfigured()
+      && !(candidate.provider === provider && candidate.model === model));
+}
+
+// Collects the answer and token usage from the OpenAI-format events going to the client
+function createStreamRecorder() {
+  const completion = { content: '', finishReason: null, usage: null };
+  let failed = false;
+
+  return {
+    observe(line) {
+      if (!line.startsWith('data: ') || line === 'data: [DONE]') return;
+      try {
+        const event = JSON.parse(line.slice(6));
+        if (event.error) failed = true;
+        const choice = event.choices?.[0];
+        completion.content += choice?.delta?.content || '';
+        completion.finishReason = choice?.finish_reason || completion.finishReason;
+        completion.usage = event.usage || completion.usage;
+      } catch {
+        // Keep-alive comments and the like
+      }
+    },
+    result: () => (failed ? null : completion)
+  };
+}
+
+// SSE error event for a stream that broke off after it started. The client
+// keeps the partial answer, shows the message and can ask for the rest.
+function streamErrorEvent(message, code) {
+  return `event: error\ndata: ${JSON.stringify({ error: { message, code, retryable: true } })}\n\n`;
+}
+
+/**
+ * Pipes an upstream SSE body to the client, rewriting each line through the
+ * provider's transformer. Partial lines are buffered across network chunks.
+ * Resolves with the streamed answer as { content, finishReason, usage }, or
+ * null when the stream carried an error. If the upstream fails mid-stream the
+ * client gets an error event instead of a connection that just ends.
+ */
+export async function pipeStream(upstreamBody, res, transform) {
+  const decoder = new TextDecoder();
+  const recorder = createStreamRecorder();
+  let buffer = '';
+
+  const forward = (line) => {
+    for (const out of transform(line)) {
+      recorder.observe(out);
+      res.write(`${out}\n`);
+    }
+  };
+
+  try {
+    for await (const chunk of upstreamBody) {
+      // stream: true keeps multi-byte characters split across chunks intact
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      for (const rawLine of lines) {
+        forward(rawLine.replace(/\r$/, ''));
+      }
+    }
+
+    if (buffer) {
+      forward(buffer);
+    }
+  } catch (error) {
+    res.write(streamErrorEvent(
+      `The model stopped answering mid-reply (${error.message})`,
+      error.code === 'upstream_timeout' ? 'upstream_timeout' : 'upstream_interrupted'
+    ));
+    res.end();
+    throw error;
+  }
+  res.end();
+  return recorder.result();
+}
+
+// Size of the pieces a recorded answer is replayed in
+const REPLAY_CHUNK_LENGTH = 400;
+
+/**
+ * Sends a recorded answer as an OpenAI-format SSE stream, all at once. The
+ * client reads it exactly like a live stream.
+ */
+export function replayStream(res, { content, finishReason }) {
+  for (let i = 0; i < content.length; i += REPLAY_CHUNK_LENGTH) {
+    res.write(`${openAIChunk({ content: content.slice(i, i + REPLAY_CHUNK_LENGTH) }, null)}\n\n`);
+  }
+  res.write(`${openAIChunk({}, finishReason)}\n\n`);
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
+// A recorded answer as a non-streaming chat.completion response
+export function toCompletionResponse({ content, finishReason }) {
+  return {
+    object: 'chat.completion',
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: finishReason
+    }]
+  };
+}
@@ -0,0 +1,169 @@
+import fetch from 'node-fetch';
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+// Code execution backends for /api/run. Submitted code is never run in this
+// process: it goes to a Piston instance or to a locked-down Docker container.
+
+export const MAX_SOURCE_LENGTH = 100 * 1024;
+export const MAX_TIMEOUT_MS = 10000;
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+// Extension language ids -> Piston language names
+const PISTON_LANGUAGES = {
+  python: 'python',
+  javascript: 'javascript',
+  typescript: 'typescript',
+  java: 'java',
+  cpp: 'c++',
+  c: 'c',
+  csharp: 'csharp',
+  go: 'go',
+  rust: 'rust',
+  swift: 'swift',
+  kotlin: 'kotlin'
+};
+
+// File name, image and shell command for each language in the Docker engine.
+// /code is the read-only source directory, /tmp the only writable place.
+const DOCKER_LANGUAGES = {
+  python: { file: 'main.py', image: 'python:3.12-slim', command: 'python3 main.py' },
+  javascript: { file: 'main.js', image: 'node:20-slim', command: 'node main.js' },
+  typescript: { file: 'main.ts', image: 'node:22-slim', command: 'node --experimental-strip-types main.ts' },
+  java: { file: 'Main.java', image: 'eclipse-temurin:21', command: 'java Main.java' },
+  cpp: { file: 'main.cpp', image: 'gcc:13', command: 'g++ -O2 -o /tmp/main main.cpp && /tmp/main' },
+  c: { file: 'main.c', image: 'gcc:13', command: 'gcc -O2 -o /tmp/main main.c -lm && /tmp/main' },
+  csharp: { file: 'main.cs', image: 'mono:6', command: 'mcs -out:/tmp/main.exe main.cs && mono /tmp/main.exe' },
+  go: { file: 'main.go', image: 'golang:1.22', command: 'go run main.go' },
+  rust: { file: 'main.rs', image: 'rust:1-slim', command: 'rustc -O -o /tmp/main main.rs && /tmp/main' },
+  swift: { file: 'main.swift', image: 'swift:5.10', command: 'swiftc -O -o /tmp/main main.swift && /tmp/main' },
+  kotlin: { file: 'main.kt', image: 'zenika/kotlin', command: 'kotlinc main.kt -include-runtime -d /tmp/main.jar 2>/dev/null && java -jar /tmp/main.jar' }
+};
+
+const truncate = (text) => (text.length > MAX_OUTPUT_LENGTH ? `${text.slice(0, MAX_OUTPUT_LENGTH)}\n[output truncated]` : text);
+
+const piston = {
+  name: 'piston',
+  isConfigured: () => !!process.env.PISTON_URL,
+  supports: (language) => !!PISTON_LANGUAGES[language],
+
+  async run({ language, source, stdin, timeoutMs }) {
+    const response = await fetch(`${process.env.PISTON_URL.replace(/\/$/, '')}/api/v2/execute`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        language: PISTON_LANGUAGES[language],
+        version: '*',
+        files: [{ name: DOCKER_LANGUAGES[language].file, content: source }],
+        stdin,
+        compile_timeout: MAX_TIMEOUT_MS,
+        run_timeout: timeoutMs
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new RunError(errorText, response.status);
+    }
+
+    const data = await response.json();
+    // A failed compile skips the run stage, report the compiler output instead
+    const stage = data.compile && data.compile.code !== 0 ? data.compile : data.run;
+    return {
+      stdout: truncate(stage.stdout || ''),
+      stderr: truncate(stage.stderr || ''),
+      exitCode: stage.code ?? null,
+      timedOut: stage.signal === 'SIGKILL'
+    };
+  }
+};
+
+// Resolves either way: a container that already exited has nothing to kill
+function killContainer(name) {
+  return new Promise((resolve) => {
+    execFile('docker', ['kill', name], { timeout: 10000 }, () => resolve());
+  });
+}
+
+const docker = {
+  name: 'docker',
+  // Never picked implicitly: it needs a Docker daemon next to the server
+  isConfigured: () => process.env.RUN_ENGINE === 'docker',
+  supports: (language) => !!DOCKER_LANGUAGES[language],
+
+  async run({ language, source, stdin, timeoutMs }) {
+    const config = DOCKER_LANGUAGES[language];
+    const dir = await mkdtemp(path.join(tmpdir(), 'leetgoat-run-'));
+    // Named so a timed out container can be killed: killing the docker CLI leaves it running
+    const name = `leetgoat-run-${crypto.randomUUID()}`;
+
+    try {
+      await writeFile(path.join(dir, config.file), source);
+
+      const args = [
+        'run', '--rm', '-i',
+        '--name', name,
+        '--network', 'none',
+        '--memory', '256m',
+        '--cpus', '1',
+        '--pids-limit', '64',
+        '--read-only',
+        '--tmpfs', '/tmp:exec,size=64m',
+        '-e', 'HOME=/tmp',
+        '-e', 'GOCACHE=/tmp/go-cache',
+        '-v', `${dir}:/code:ro`,
+        '-w', '/code',
+        config.image,
+        'sh', '-c', config.command
+      ];
+
+      // Compilers need time on top of the run budget
+      return await new Promise((resolve) => {
+        const child = execFile('docker', args, {
+          timeout: timeoutMs + MAX_TIMEOUT_MS,
+          maxBuffer: MAX_OUTPUT_LENGTH * 2,
+          killSignal: 'SIGKILL'
+        }, async (error, stdout, stderr) => {
+          if (error?.killed) {
+            await killContainer(name);
+          }
+          resolve({
+            stdout: truncate(stdout || ''),
+            stderr: truncate(stderr || (error && !error.killed ? error.message : '')),
+            exitCode: error ? (typeof error.code === 'number' ? error.code : null) : 0,
+            timedOut: !!error?.killed
+          });
+        });
+        child.stdin.end(stdin || '');
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+};
+
+export class RunError extends Error {
+  constructor(message, status = 500) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const runEngines = { piston, docker };
+
+/**
+ * Picks the execution engine: an explicit RUN_ENGINE, else Piston when
+ * PISTON_URL is set. Returns null when nothing is configured.
+ */
+export function resolveRunEngine() {
+  const requested = process.env.RUN_ENGINE;
+  if (requested) {
+    return Object.hasOwn(runEngines, requested) ? runEngines[requested] : null;
+  }
+  return piston.isConfigured() ? piston : null;
+}
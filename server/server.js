@@ -2,7 +2,28 @@ import express from 'express';
 import cors from 'cors';
 import fetch from 'node-fetch';
 import dotenv from 'dotenv';
-import crypto from 'crypto';
+import { providers, getProvider, fallbackModels, pipeStream, replayStream, toCompletionResponse } from './providers.js';
+import { cacheInfo, checkCache, getCached, setCached, generateCacheKey, normalizeMessages } from './cache.js';
+import { log, requestLogger } from './logger.js';
+import { metrics, recordUpstreamCall, renderPrometheus, statsSnapshot } from './metrics.js';
+import { UpstreamError, fetchUpstream, readWithIdleTimeout, isRetryableStatus, circuitStates, resilience } from './upstream.js';
+import { resolveOcrEngine } from './ocr.js';
+import { resolveRunEngine, MAX_SOURCE_LENGTH, MAX_TIMEOUT_MS } from './runner.js';
+import {
+  limits,
+  hasInstallSecret,
+  LimitError,
+  issueInstallToken,
+  limitInstallIssuing,
+  requireInstall,
+  identifyInstall,
+  isModelAllowed,
+  checkChatRequest,
+  checkVisionRequest,
+  chargeCompletionTokens,
+  sendLimitError
+} from './limits.js';
+import { TASKS, PromptError, buildTaskPrompt, promptVersions } from './prompts.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -10,43 +31,21 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// In-memory cache
-const cache = new Map();
-const CACHE_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
-const MAX_CACHE_SIZE = 1000; // Maximum number of cached items
-
-// Cache utility functions
-function generateCacheKey(data) {
-  return crypto.createHash('sha256').update(JSON.stringify(data)).digest('hex');
+// Vercel sits in front of the app, so the client address is in X-Forwarded-For
+if (process.env.VERCEL) {
+  app.set('trust proxy', true);
 }
 
-function getCached(key) {
-  const cached = cache.get(key);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    console.log(`Cache HIT for key: ${key.substring(0, 8)}...`);
-    return cached.data;
-  }
-  if (cached) {
-    cache.delete(key); // Remove expired entry
-  }
-  console.log(`Cache MISS for key: ${key.substring(0, 8)}...`);
-  return null;
-}
+// Extra origins allowed to call the API, comma separated
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean);
 
-function setCached(key, data) {
-  // Remove oldest entries if cache is full
-  if (cache.size >= MAX_CACHE_SIZE) {
-    const firstKey = cache.keys().next().value;
-    cache.delete(firstKey);
-    console.log('Cache full, removed oldest entry');
-  }
-  
-  cache.set(key, {
-    data,
-    timestamp: Date.now()
-  });
-  console.log(`Cached result for key: ${key.substring(0, 8)}...`);
-}
+// Request ids, one JSON log line per request and the HTTP metrics. Routes are
+// labelled by their pattern so ids in paths do not blow up the series count.
+app.use(requestLogger((req, res, durationMs) => {
+  const route = req.route ? req.baseUrl + req.route.path : 'unmatched';
+  metrics.httpRequests.inc({ route, method: req.method, status: res.statusCode });
+  metrics.httpDuration.observe({ route }, durationMs / 1000);
+}));
 
 // CORS for Chrome extension
 app.use(cors({
@@ -65,28 +64,24 @@ app.use(cors({
     }
     
     // Allow localhost for development
-    if (origin.includes('localhost')) {
+    if (/^https?:\/\/localhost(:\d+)?$/.test(origin)) {
+      return callback(null, true);
+    }
+    
+    if (ALLOWED_ORIGINS.includes(origin)) {
       return callback(null, true);
     }
     
-    // Default allow for now 
-    return callback(null, true);
+    // No CORS headers, so the browser blocks the response
+    return callback(null, false);
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  exposedHeaders: ['X-Prompt-Version', 'X-Request-Id', 'X-Model', 'Retry-After'],
   optionsSuccessStatus: 200
 }));
 
-// Handle preflight requests explicitly
-app.options('*', (req, res) => {
-  res.header('Access-Control-Allow-Origin', req.headers.origin || '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With');
-  res.header('Access-Control-Allow-Credentials', 'true');
-  res.sendStatus(200);
-});
-
 app.use(express.json({ limit: '10mb' }));
 
 // Health check endpoint
@@ -97,124 +92,520 @@ app.get('/', (req, res) => {
   });
 });
 
-// Simple test endpoint that bypasses authentication
-app.get('/test', (req, res) => {
-  res.json({ 
-    status: 'Server is working!',
+// Readiness results are reused for a while, so a busy health checker does not
+// turn into a stream of requests to every provider
+const READINESS_TTL_MS = 30 * 1000;
+let readiness = null;
+
+async function checkProvider(provider) {
+  // The local default points at an Ollama that only exists on a developer machine
+  if (!provider.isConfigured() || (provider.name === 'local' && !process.env.LOCAL_LLM_BASE_URL)) {
+    return { status: 'skipped' };
+  }
+  const { url, headers } = provider.buildHealthRequest();
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(url, { headers, signal: AbortSignal.timeout(3000) });
+    return { status: response.ok ? 'ok' : 'failing', httpStatus: response.status, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return { status: 'unreachable', error: error.message, latencyMs: Date.now() - startedAt };
+  }
+}
+
+async function runReadinessChecks() {
+  const checks = {};
+  await Promise.all(Object.values(providers).map(async (provider) => {
+    checks[provider.name] = await checkProvider(provider);
+  }));
+  try {
+    await checkCache();
+    checks.cache = { status: 'ok' };
+  } catch (error) {
+    checks.cache = { status: 'failing', error: error.message };
+  }
+
+  // Ready when the cache works and at least one provider can answer
+  const ready = checks.cache.status === 'ok'
+    && Object.values(providers).some((provider) => checks[provider.name].status === 'ok');
+  if (!ready) {
+    log.warn('Readiness check failed', { checks });
+  }
+  return { ready, checks, checkedAt: new Date().toISOString() };
+}
+
+// Readiness check, also answering on the old /test path. Like / it needs no token.
+app.get(['/ready', '/test'], async (req, res) => {
+  if (!readiness || Date.now() - Date.parse(readiness.checkedAt) > READINESS_TTL_MS) {
+    readiness = await runReadinessChecks();
+  }
+
+  res.status(readiness.ready ? 200 : 503).json({
+    status: readiness.ready ? 'ready' : 'not ready',
     timestamp: new Date().toISOString(),
+    checkedAt: readiness.checkedAt,
+    checks: readiness.checks,
+    circuits: circuitStates(),
     env: {
       hasGoogleKey: !!process.env.GOOGLE_VISION_API_KEY,
-      hasOpenAIKey: !!process.env.OPENAI_API_KEY
-    }
+      ocrEngine: resolveOcrEngine()?.name || null,
+      hasOpenAIKey: !!process.env.OPENAI_API_KEY,
+      hasAnthropicKey: !!process.env.ANTHROPIC_API_KEY,
+      localLLMBaseUrl: process.env.LOCAL_LLM_BASE_URL || null,
+      runEngine: resolveRunEngine()?.name || null,
+      hasInstallSecret
+    },
+    limits,
+    cache: cacheInfo(),
+    prompts: promptVersions()
   });
 });
 
-// Google Vision API proxy with caching
-app.post('/api/vision', async (req, res) => {
+// Operator routes, closed unless ADMIN_TOKEN is set
+function requireAdmin(req, res, next) {
+  const token = (req.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!process.env.ADMIN_TOKEN || token !== process.env.ADMIN_TOKEN) {
+    return res.status(403).json({ error: 'Admin token required' });
+  }
+  next();
+}
+
+// Prometheus scrape target
+app.get('/metrics', requireAdmin, (req, res) => {
+  res.type('text/plain; version=0.0.4').send(renderPrometheus());
+});
+
+// The same numbers as JSON, for a quick look without a Prometheus server
+app.get('/stats', requireAdmin, (req, res) => {
+  res.json({ ...statsSnapshot(), circuits: circuitStates(), cacheBackend: cacheInfo(), limits, resilience });
+});
+
+// Issues the per-install token every other /api route requires. The extension
+// asks for one on first use and sends it as "Authorization: Bearer <token>".
+app.post('/api/install', (req, res) => {
+  try {
+    limitInstallIssuing(req.ip);
+  } catch (error) {
+    return sendLimitError(res, error);
+  }
+  log.info('Install token issued');
+  res.json({ token: issueInstallToken() });
+});
+
+// OCR endpoint with caching. Accepts and returns the Google Vision
+// images:annotate shape whichever engine does the work (see ocr.js).
+app.post('/api/vision', requireInstall, async (req, res) => {
   try {
-    console.log('Vision API request received');
+    const engine = resolveOcrEngine();
+    log.info('Vision request received', { engine: engine ? engine.name : process.env.OCR_ENGINE });
     
-    if (!process.env.GOOGLE_VISION_API_KEY) {
-      return res.status(500).json({ error: 'Google Vision API key not configured' });
+    if (!engine) {
+      return res.status(500).json({ error: `Unknown OCR engine: ${process.env.OCR_ENGINE}` });
+    }
+    if (!engine.isConfigured()) {
+      return res.status(500).json({ error: `OCR engine ${engine.name} is not configured` });
     }
+    const images = checkVisionRequest(req.body);
 
     // Generate cache key from image content
-    const cacheKey = generateCacheKey(req.body);
+    const cacheKey = generateCacheKey({ engine: engine.name, body: req.body });
     
     // Check cache first
-    const cachedResult = getCached(cacheKey);
+    const cachedResult = await getCached(cacheKey);
     if (cachedResult) {
       return res.json(cachedResult);
     }
 
-    const response = await fetch(`https://vision.googleapis.com/v1/images:annotate?key=${process.env.GOOGLE_VISION_API_KEY}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(req.body)
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Vision API error:', errorText);
-      return res.status(response.status).json({ error: errorText });
+    if (engine.completionTokensPerImage) {
+      chargeCompletionTokens(req.installId, images * engine.completionTokensPerImage);
     }
-    
-    const data = await response.json();
+    const data = await engine.annotate(req.body);
     
     // Cache the result
-    setCached(cacheKey, data);
+    await setCached(cacheKey, data);
     
     res.json(data);
   } catch (error) {
-    console.error('Vision API proxy error:', error);
-    res.status(500).json({ error: error.message });
+    if (error instanceof LimitError) {
+      return sendLimitError(res, error);
+    }
+    log.error('Vision request failed', { error });
+    if (error instanceof UpstreamError) {
+      return sendUpstreamFailure(res, error);
+    }
+    res.status(error.status || 500).json({ error: error.message });
   }
 });
 
 // OpenAI API proxy with caching
-app.post('/api/openai', async (req, res) => {
+app.post('/api/openai', requireInstall, async (req, res) => {
   try {
-    console.log('OpenAI API request received');
+    log.info('OpenAI request received');
     
     if (!process.env.OPENAI_API_KEY) {
       return res.status(500).json({ error: 'OpenAI API key not configured' });
     }
 
+    // Only the fields a chat completion needs are forwarded, never the raw body
+    const model = req.body.model || providers.openai.defaultModel;
+    const maxTokens = checkChatRequest(providers.openai, model, req.body.messages, req.body.max_completion_tokens);
+    const body = {
+      model,
+      messages: req.body.messages,
+      stream: !!req.body.stream,
+      max_completion_tokens: maxTokens
+    };
+
     // Only cache non-streaming requests
-    if (!req.body.stream) {
+    if (!body.stream) {
       const cacheKey = generateCacheKey({
-        messages: req.body.messages,
-        model: req.body.model
+        messages: body.messages,
+        model: body.model
       });
       
-      const cachedResult = getCached(cacheKey);
+      const cachedResult = await getCached(cacheKey);
       if (cachedResult) {
         return res.json(cachedResult);
       }
     }
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    // Cached answers are free, only requests that reach the provider count
+    chargeCompletionTokens(req.installId, maxTokens);
+    if (body.stream) {
+      // Otherwise OpenAI leaves the usage out of streamed answers
+      body.stream_options = { include_usage: true };
+    }
+
+    const startedAt = Date.now();
+    const response = await fetchUpstream('openai', 'https://api.openai.com/v1/chat/completions', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
       },
-      body: JSON.stringify(req.body)
-    });
+      body: JSON.stringify(body)
+    }, { stream: body.stream });
+    const latencyMs = Date.now() - startedAt;
     
     if (!response.ok) {
       const errorText = await response.text();
-      console.error('OpenAI API error:', errorText);
+      recordUpstreamCall({ provider: 'openai', model, status: response.status, latencyMs });
+      log.error('Upstream error', { provider: 'openai', model, status: response.status, latencyMs, body: errorText });
       return res.status(response.status).json({ error: errorText });
     }
     
     // Handle streaming response
-    if (req.body.stream) {
+    if (body.stream) {
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
       res.setHeader('Connection', 'keep-alive');
       
-      response.body.pipe(res);
+      try {
+        const completion = await pipeStream(readWithIdleTimeout('openai', response.body), res, providers.openai.createStreamTransformer());
+        recordUpstreamCall({ provider: 'openai', model, status: response.status, latencyMs, usage: completion?.usage });
+      } catch (error) {
+        // pipeStream already told the client with an SSE error event
+        recordUpstreamCall({ provider: 'openai', model, status: response.status, latencyMs });
+        log.error('Stream interrupted', { provider: 'openai', model, error });
+      }
     } else {
       const data = await response.json();
+      recordUpstreamCall({ provider: 'openai', model, status: response.status, latencyMs, usage: data.usage });
+      log.info('Upstream call', { provider: 'openai', model, status: response.status, latencyMs, usage: data.usage });
       
-      // Cache non-streaming responses
-      const cacheKey = generateCacheKey({
-        messages: req.body.messages,
-        model: req.body.model
-      });
-      setCached(cacheKey, data);
+      // Cache finished answers only, a cut off one would be replayed cut off
+      if (data.choices?.[0]?.finish_reason === 'stop') {
+        const cacheKey = generateCacheKey({
+          messages: body.messages,
+          model: body.model
+        });
+        await setCached(cacheKey, data);
+      }
       
       res.json(data);
     }
   } catch (error) {
-    console.error('OpenAI API proxy error:', error);
+    if (error instanceof LimitError) {
+      return sendLimitError(res, error);
+    }
+    if (error instanceof UpstreamError) {
+      log.error('OpenAI request failed', { error });
+      return sendUpstreamFailure(res, error);
+    }
+    log.error('OpenAI request failed', { error });
     res.status(500).json({ error: error.message });
   }
 });
 
+// Providers the extension can pick from, and whether this server has credentials for them
+app.get('/api/providers', (req, res) => {
+  res.json({
+    providers: Object.values(providers).map((provider) => ({
+      name: provider.name,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured()
+    }))
+  });
+});
+
+// Answers cut off by the token limit or broken by an error are not worth replaying
+async function cacheCompletion(cacheKey, { content, finishReason }) {
+  if (finishReason === 'stop' && content) {
+    await setCached(cacheKey, { completion: { content, finishReason } });
+  }
+}
+
+// One log line and the upstream metrics per provider call. Latency is the time
+// until the provider started answering, duration includes the whole stream.
+function logUpstreamCall({ provider, model, stream, status, startedAt, respondedAt, usage }) {
+  const latencyMs = respondedAt - startedAt;
+  recordUpstreamCall({ provider, model, status, latencyMs, usage });
+  log[status < 400 ? 'info' : 'error']('Upstream call', {
+    provider,
+    model,
+    stream,
+    status,
+    latencyMs,
+    durationMs: Date.now() - startedAt,
+    promptTokens: usage?.prompt_tokens,
+    completionTokens: usage?.completion_tokens
+  });
+}
+
+// What the client gets when no model could answer: a short message the side
+// panel can show as is, the upstream's own error text only goes to the logs
+function sendUpstreamFailure(res, { status, message, code, retryAfter }) {
+  if (retryAfter) {
+    res.set('Retry-After', String(retryAfter));
+  }
+  res.status(status).json({ error: message, code, retryAfter });
+}
+
+/**
+ * One call to one model, with the retries and timeout of fetchUpstream.
+ * Resolves with { call, response } for an answer, or { call, failure } when
+ * this model failed; `failure.fallback` says whether another model may help.
+ */
+async function callModel({ provider, model }, { messages, stream, maxTokens }) {
+  const request = provider.buildRequest({ model, messages, stream, maxTokens });
+  const call = { provider: provider.name, model, stream, startedAt: Date.now() };
+
+  let response;
+  try {
+    response = await fetchUpstream(provider.name, request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: JSON.stringify(request.body)
+    }, { stream });
+  } catch (error) {
+    if (!(error instanceof UpstreamError)) throw error;
+    logUpstreamCall({ ...call, status: error.status, respondedAt: Date.now() });
+    return { call, failure: { status: error.status, message: error.message, code: error.code, retryAfter: error.retryAfter, fallback: true } };
+  }
+
+  call.status = response.status;
+  call.respondedAt = Date.now();
+  if (response.ok) {
+    return { call, response };
+  }
+
+  const errorText = await response.text();
+  logUpstreamCall(call);
+  log.error('Upstream error body', { provider: provider.name, body: errorText });
+  if (!isRetryableStatus(response.status)) {
+    // A request the provider rejects, another model would most likely reject it too
+    return { call, failure: { status: response.status, message: errorText, fallback: false } };
+  }
+  return {
+    call,
+    failure: {
+      status: 503,
+      message: `${provider.name} is overloaded or failing right now (${response.status}), try again in a moment`,
+      code: 'upstream_unavailable',
+      retryAfter: Number(response.headers.get('retry-after')) || null,
+      fallback: true
+    }
+  };
+}
+
+// Sends the messages to the provider named in the request and relays the answer
+// in the OpenAI format, streamed or not. When that model cannot answer, the
+// MODEL_FALLBACKS are tried in order; X-Model names the one that answered.
+async function relayChat(req, res, { messages, maxTokens: requestedMaxTokens }) {
+  try {
+    const provider = getProvider(req.body.provider);
+
+    if (!provider) {
+      return res.status(400).json({ error: `Unknown provider: ${req.body.provider}` });
+    }
+    if (!provider.isConfigured()) {
+      return res.status(500).json({ error: `Provider ${provider.name} is not configured` });
+    }
+
+    const model = req.body.model || provider.defaultModel;
+    const stream = !!req.body.stream;
+    const maxTokens = checkChatRequest(provider, model, messages, requestedMaxTokens);
+
+    // Finished answers are recorded whether they were streamed or not, and a
+    // repeat of the same prompt (give or take whitespace) is answered from the
+    // recording in either form. Fallback answers are kept under their own model.
+    const cacheKeyFor = (candidate) => generateCacheKey({
+      provider: candidate.provider.name,
+      messages: normalizeMessages(messages),
+      model: candidate.model
+    });
+    const cached = await getCached(cacheKeyFor({ provider, model }));
+    if (cached?.completion) {
+      res.set('X-Cache', 'HIT');
+      if (!stream) {
+        return res.json(toCompletionResponse(cached.completion));
+      }
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      return replayStream(res, cached.completion);
+    }
+    res.set('X-Cache', 'MISS');
+
+    // Cached answers are free, only requests that reach the provider count
+    chargeCompletionTokens(req.installId, maxTokens);
+
+    const candidates = [
+      { provider, model },
+      ...fallbackModels(provider, model).filter((candidate) => isModelAllowed(candidate.provider, candidate.model))
+    ];
+    let answer = null;
+    let failure = null;
+    for (const candidate of candidates) {
+      const result = await callModel(candidate, { messages, stream, maxTokens });
+      if (result.response) {
+        answer = { candidate, ...result };
+        break;
+      }
+      failure = result.failure;
+      if (!failure.fallback) break;
+    }
+    if (!answer) {
+      return sendUpstreamFailure(res, failure);
+    }
+
+    const { candidate, call, response } = answer;
+    if (candidate !== candidates[0]) {
+      log.warn('Answered by fallback model', { requested: `${provider.name}:${model}`, used: `${call.provider}:${call.model}` });
+    }
+    res.set('X-Model', `${call.provider}:${call.model}`);
+
+    if (stream) {
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+
+      let completion;
+      try {
+        completion = await pipeStream(readWithIdleTimeout(call.provider, response.body), res, candidate.provider.createStreamTransformer());
+      } catch (error) {
+        // pipeStream already told the client with an SSE error event
+        logUpstreamCall(call);
+        log.error('Stream interrupted', { provider: call.provider, model: call.model, error });
+        return;
+      }
+      logUpstreamCall({ ...call, usage: completion?.usage });
+      if (completion) {
+        await cacheCompletion(cacheKeyFor(candidate), completion);
+      }
+    } else {
+      const data = candidate.provider.toOpenAIResponse(await response.json());
+      logUpstreamCall({ ...call, usage: data.usage });
+      const choice = data.choices?.[0];
+      if (choice) {
+        await cacheCompletion(cacheKeyFor(candidate), { content: choice.message?.content || '', finishReason: choice.finish_reason });
+      }
+      res.json(data);
+    }
+  } catch (error) {
+    if (error instanceof LimitError) {
+      return sendLimitError(res, error);
+    }
+    log.error('Chat request failed', { error });
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({ error: error.message });
+  }
+}
+
+// Provider-agnostic chat endpoint, always answers in the OpenAI format
+app.post('/api/chat', requireInstall, async (req, res) => {
+  log.info('Chat request received', { provider: req.body.provider || 'openai' });
+  await relayChat(req, res, {
+    messages: req.body.messages,
+    maxTokens: req.body.max_completion_tokens
+  });
+});
+
+// Task endpoints: the body carries { problemText, language, history, ... } plus
+// provider, model and stream, and the server builds the prompt from the task's
+// template. The version used comes back in the X-Prompt-Version header.
+for (const task of TASKS) {
+  app.post(`/api/${task}`, requireInstall, async (req, res) => {
+    let prompt;
+    try {
+      prompt = buildTaskPrompt(task, req.body, req.installId, req.body.promptVersion);
+    } catch (error) {
+      return res.status(error instanceof PromptError ? error.status : 500).json({ error: error.message });
+    }
+
+    log.info('Task request received', { promptVersion: prompt.version, provider: req.body.provider || 'openai' });
+    res.set('X-Prompt-Version', prompt.version);
+    await relayChat(req, res, {
+      messages: prompt.messages,
+      maxTokens: req.body.max_completion_tokens || prompt.maxTokens
+    });
+  });
+}
+
+// The same prompts without running them, for clients that call the provider
+// themselves. Building a prompt costs nothing, so it does not count against
+// the install's limits.
+app.post('/api/prompts/:task', identifyInstall, (req, res) => {
+  try {
+    const { version, messages, maxTokens } = buildTaskPrompt(req.params.task, req.body, req.installId, req.body.promptVersion);
+    res.set('X-Prompt-Version', version);
+    res.json({ version, messages, maxTokens });
+  } catch (error) {
+    res.status(error instanceof PromptError ? error.status : 500).json({ error: error.message });
+  }
+});
+
+// Runs code for the extension's "Run examples" action in a sandbox (see runner.js).
+// Not cached: the same program can legitimately behave differently between runs.
+app.post('/api/run', requireInstall, async (req, res) => {
+  try {
+    const { language, source, stdin = '', timeoutMs = 5000 } = req.body;
+    const engine = resolveRunEngine();
+    log.info('Run request received', { language, engine: engine ? engine.name : null });
+
+    if (!engine) {
+      return res.status(501).json({ error: 'No code runner configured on this server (set PISTON_URL or RUN_ENGINE)' });
+    }
+    if (!engine.supports(language)) {
+      return res.status(400).json({ error: `Unsupported language: ${language}` });
+    }
+    if (typeof source !== 'string' || !source.trim() || source.length > MAX_SOURCE_LENGTH) {
+      return res.status(400).json({ error: `Source must be a non-empty string of at most ${MAX_SOURCE_LENGTH} characters` });
+    }
+
+    const result = await engine.run({
+      language,
+      source,
+      stdin: String(stdin),
+      timeoutMs: Math.min(Math.max(Number(timeoutMs) || 5000, 100), MAX_TIMEOUT_MS)
+    });
+    res.json(result);
+  } catch (error) {
+    log.error('Run failed', { error });
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
 // Privacy policy route
 app.get('/privacy', (req, res) => {
   res.send(`
@@ -245,7 +636,7 @@ app.get('/privacy', (req, res) => {
     
     <h2>How We Use Your Data</h2>
     <ul>
-        <li>Screenshots are sent to our servers for text extraction using Google Vision API</li>
+        <li>Screenshots are sent to our servers for text extraction using Google Vision API (self-hosted servers may use a local OCR engine instead)</li>
         <li>Extracted text is sent to OpenAI for problem analysis and solution generation</li>
         <li>All processing happens in real-time during your session</li>
     </ul>
@@ -264,8 +655,21 @@ app.get('/privacy', (req, res) => {
 });
 
 app.listen(PORT, () => {
-  console.log(`Proxy server running on port ${PORT}`);
-  console.log(`Google Vision API Key: ${process.env.GOOGLE_VISION_API_KEY ? 'Configured' : 'Missing'}`);
-  console.log(`OpenAI API Key: ${process.env.OPENAI_API_KEY ? 'Configured' : 'Missing'}`);
-  console.log(`Cache: ${MAX_CACHE_SIZE} items, ${CACHE_TTL / 1000 / 60} min TTL`);
-}); 
\ No newline at end of file
+  log.info('Proxy server running', {
+    port: Number(PORT),
+    googleVisionKey: !!process.env.GOOGLE_VISION_API_KEY,
+    ocrEngine: resolveOcrEngine()?.name || `unknown (${process.env.OCR_ENGINE})`,
+    openAIKey: !!process.env.OPENAI_API_KEY,
+    anthropicKey: !!process.env.ANTHROPIC_API_KEY,
+    localLLM: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1 (default)',
+    runEngine: resolveRunEngine()?.name || null,
+    cache: `${cacheInfo().description}, ${cacheInfo().ttlMinutes} min TTL`,
+    limits,
+    resilience,
+    modelFallbacks: process.env.MODEL_FALLBACKS || null,
+    adminRoutes: !!process.env.ADMIN_TOKEN
+  });
+  if (!hasInstallSecret) {
+    log.warn('INSTALL_SECRET not set: install tokens reset when the server restarts');
+  }
+});
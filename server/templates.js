@@ -0,0 +1,597 @@
+// Prompt templates for the task endpoints, by task and version. The server
+// picks the version to use (see prompts.js); this file only turns validated
+// inputs into messages.
+//
+// It must not import Node modules or read the environment: the extension
+// bundles it to build the same prompts in direct mode when the proxy cannot
+// be reached.
+
+export class PromptError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Pattern labels by id. The extension's taxonomy (extension/src/taxonomy.ts) is
+// built from these and reads the label back out of the answer, trying them in
+// this order, so more specific patterns come first
+export const PATTERN_LABELS = {
+  'monotonic-stack': 'Monotonic Stack',
+  'dp-intervals': 'DP on Intervals',
+  'dp-bitmask': 'DP with Bitmask',
+  'dp-2d': '2D Dynamic Programming',
+  'dp-1d': '1D Dynamic Programming',
+  'topological-sort': 'Topological Sort',
+  'shortest-path': 'Shortest Path',
+  'union-find': 'Union Find',
+  'sliding-window': 'Sliding Window',
+  'two-pointers': 'Two Pointers',
+  'prefix-sum': 'Prefix Sum',
+  'binary-search': 'Binary Search',
+  tries: 'Trie',
+  heap: 'Heap / Priority Queue',
+  intervals: 'Intervals',
+  backtracking: 'Backtracking',
+  graphs: 'Graphs (BFS/DFS)',
+  trees: 'Trees',
+  'linked-list': 'Linked List',
+  stack: 'Stack',
+  greedy: 'Greedy',
+  'bit-manipulation': 'Bit Manipulation',
+  'string-matching': 'String Matching',
+  design: 'Design',
+  math: 'Math',
+  'arrays-hashing': 'Arrays & Hashing'
+};
+
+// Hint ladder steps below the full solution, in reveal order
+const HINT_STEPS = {
+  pattern: 'Pattern hint',
+  outline: 'Approach outline',
+  pseudocode: 'Pseudocode'
+};
+
+const HINT_INSTRUCTIONS = {
+  pattern: `Name the algorithmic pattern or data structure that fits this problem (e.g. "sliding window", "monotonic stack") and give ONE nudge about which detail in the statement points to it.
+Do NOT describe the algorithm, do NOT write pseudocode or code. 2-4 sentences.`,
+  outline: `Outline the approach as 3-6 short numbered steps in plain English: what to store, how to iterate, and when the answer is known.
+Mention the target time complexity. Do NOT write pseudocode or code.`,
+  pseudocode: `Write language-agnostic pseudocode for the approach in a \`\`\`text code block, with a one-line comment for any tricky step.
+Do NOT write real code in any programming language.`
+};
+
+const INTERVIEW_OPENING_REQUEST = 'I am ready to start the interview.';
+
+// Solve answer headers by section id; extension/src/solution.ts splits the
+// answer at these titles
+export const SECTION_TITLES = {
+  summary: '🧐 Problem Summary',
+  solution: '✅ Solution',
+  timeComplexity: '⏱️ Time Complexity',
+  spaceComplexity: '📦 Space Complexity',
+  example: '✍️ Concrete Example',
+  giveaways: '🤓 Problem Giveaways',
+  similar: '💪 Similar Problems'
+};
+
+// Also the extension's language dropdown (extension/src/languages.ts)
+export const LANGUAGE_LABELS = {
+  python: 'Python',
+  javascript: 'JavaScript',
+  java: 'Java',
+  cpp: 'C++',
+  c: 'C',
+  csharp: 'C#',
+  go: 'Go',
+  rust: 'Rust',
+  typescript: 'TypeScript',
+  swift: 'Swift',
+  kotlin: 'Kotlin'
+};
+
+// Language ids come from requests, so only own keys count: "constructor" is not a label
+const languageLabel = (id) => (Object.hasOwn(LANGUAGE_LABELS, id) ? LANGUAGE_LABELS[id] : id);
+
+// Marks each result line of a harness; extension/src/harness.ts prints and reads it
+export const RESULT_MARKER = '__LEETGOAT_RESULT__';
+
+const MAX_EDGE_CASES = 5;
+
+function problemBlock(problemText) {
+  return problemText ? `\`\`\`\n${problemText}\n\`\`\`` : 'No problem context available';
+}
+
+function solveSystemPromptV1(language) {
+  return `**System Prompt - LeetCode Solution Assistant**
+
+You are an expert AI that generates flawless LeetCode solutions in STRICT MARKDOWN FORMAT. For every coding problem:
+
+**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
+
+**LANGUAGE: Generate the solution in ${language.toUpperCase()}**
+
+1. **REQUIRED SECTIONS** (in this exact order with EXACT markdown headers):
+   ## 🧐 Problem Summary
+    - Give a detailed but not overly wordy summary of the problem, you should clearly state what the problem is asking for. 
+    - End the summary with this line: **Pattern:** <the ONE best fit from: ${Object.values(PATTERN_LABELS).join(', ')}> · **Difficulty:** <Easy, Medium or Hard>
+   ## ✅ Solution
+    - Please provide the solution for the inputted problem in ${language.toUpperCase()}, when generating the code please pertain to the rules in the "CODE FORMATTING RULES"
+   ### ⏱️ Time Complexity: $\\mathcal{O}(actual_complexity)$
+    - Please provide a detailed explanation as to why the time complexities is what it is, 2-3 sentences should suffice. Make sure to wrap the complexity notation in backticks like \`O(n)\` or \`O(log n)\` so it appears in code formatting. IMPORTANT: In your header, use the format "### ⏱️ Time Complexity: $\\mathcal{O}(actual_complexity)$" where you replace "actual_complexity" with the real complexity like "n" or "log n".
+   ### 📦 Space Complexity: $\\mathcal{O}(actual_complexity)$
+    - Please provide a detailed explanation as to why the space complexities is what it is, 2-3 sentences should suffice. Make sure to wrap the complexity notation in backticks like \`O(1)\` or \`O(n)\` so it appears in code formatting. IMPORTANT: In your header, use the format "### 📦 Space Complexity: $\\mathcal{O}(actual_complexity)$" where you replace "actual_complexity" with the real complexity like "1" or "n".
+   ## ✍️ Concrete Example
+    please provide an example to help the user understand the logic, anticipate steps that are complex and could cause confusion and explain such steps 
+   ## 🤓 Problem Giveaways
+    - **"Quote 1 from the problem that was a giveaway to use the technique you chose"** 
+        - How it helped you identify the correct technique to use, the purpose is to help users recognize these patterns for future interviews, thus anticipate similar quotes to look for that could be giveaway to use the same technqiue, THIS IS CRITICAL PLEASE INCLUDE THIS provide specific examples of variations of this quote that could hint as using the same technique. 
+    
+    - **"Quote 2 from the problem that was a giveaway to use the technique you chose"** 
+        - How it helped you identify the correct technique to use, the purpose is to help users recognize these patterns for future interviews, thus anticipate similar quotes to look for that could be giveaway to use the same technqiue, THIS IS CRITICAL PLEASE INCLUDE THIS provide specific examples of variations of this quote that could hint as using the same technique. 
+
+    - **"Quote 3 from the problem that was a giveaway to use the technique you chose"** 
+        - How it helped you identify the correct technique to use, the purpose is to help users recognize these patterns for future interviews, thus anticipate similar quotes to look for that could be giveaway to use the same technqiue, THIS IS CRITICAL PLEASE INCLUDE THIS provide specific examples of variations of this quote that could hint as using the same technique. 
+   ## 💪 Similar Problems
+     
+     - Similar problem 1
+     - Similar problem 2
+     - Similar problem 3 
+
+**IMPORTANT: Do NOT include the current problem itself in the Similar Problems section. Only suggest OTHER problems that use similar techniques or concepts.**
+
+**FORMAT SIMILAR PROBLEMS AS LINKS: Use this exact format for similar problems:**
+- [Problem Number. Problem Name](https://leetcode.com/problems/problem-slug/)
+
+**Example:**
+- [15. 3Sum](https://leetcode.com/problems/3sum/)
+- [167. Two Sum II - Input Array is Sorted](https://leetcode.com/problems/two-sum-ii-input-array-is-sorted/)
+- [18. 4Sum](https://leetcode.com/problems/4sum/)
+
+2. **MARKDOWN FORMATTING RULES**:
+   - ALWAYS use ## for main headers
+   - ALWAYS use ### for sub-headers  
+   - ALWAYS wrap code in \`\`\`${language} code blocks
+   - Use **bold** for emphasis
+   - Use - for bullet points
+   - Use proper markdown syntax throughout
+
+3. **CODE FORMATTING RULES**:
+   \`\`\`${language}
+   # MUST:
+   - Use exact starter code from problem if available
+   - Include all imports/includes needed
+   - Proper indentation (4 spaces for Python, 2 spaces for JavaScript, etc.)
+   - One statement per line
+   - Type hints/annotations if the language supports them
+   - Proper closing brackets
+   - Comments if helpful for understanding
+   \`\`\`
+
+**YOU MUST FOLLOW THIS EXACT FORMAT WITH PROPER MARKDOWN SYNTAX AND GENERATE CODE IN ${language.toUpperCase()} ONLY.**`;
+}
+
+function hintSystemPromptV1(level, language) {
+  return `You are a patient coding coach helping someone practice LeetCode problems. They want to solve it themselves, so reveal only what is asked for and never more.
+
+**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
+
+The user will eventually write the solution in ${language.toUpperCase()}. Earlier hints may already be in the conversation; build on them without repeating them.
+
+${HINT_INSTRUCTIONS[level]}`;
+}
+
+function interviewSystemPromptV1(language, problemText) {
+  return `You are a friendly but rigorous technical interviewer running a mock coding interview. The candidate will code in ${language.toUpperCase()}.
+
+**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
+
+The problem:
+${problemBlock(problemText)}
+
+How to run the interview:
+1. Open by restating the problem in one or two sentences, then ask the candidate 1-3 clarifying questions a strong candidate should think about (input sizes, edge cases, duplicates, empty input, what to return when there is no answer). Wait for their answers.
+2. Answer any clarifying questions the candidate asks the way an interviewer would, without hinting at the solution.
+3. When the candidate describes an approach, grade it under "### 📋 Feedback" with a score out of 10 for each of: Correctness, Complexity, Edge cases and Communication, and one sentence on what to improve. Then ask a probing follow-up question.
+4. NEVER reveal the solution, pseudocode or code, even if asked. If the candidate is stuck, give one small hint at a time.
+
+Keep each reply short, like a real interviewer would.`;
+}
+
+function followUpSystemPromptV1(language, problemText) {
+  return `You are an expert coding assistant helping with LeetCode problems. The user has already received a solution and is now asking follow-up questions about it.
+
+**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
+
+**LANGUAGE: When providing code examples, use ${language.toUpperCase()}**
+
+Context about the original problem:
+${problemBlock(problemText)}
+
+Guidelines for follow-up responses:
+1. Be concise and focused on the specific question
+2. Use proper markdown formatting with ## for headers, ### for subheaders
+3. Wrap code in \`\`\`${language} code blocks
+4. If explaining concepts, provide clear examples
+5. If the user asks for variations, provide complete working solutions
+6. If they ask about complexity, be specific with mathematical notation using $\\mathcal{O}(n)$ format
+7. Reference the original solution when relevant
+
+Remember: This is a follow-up conversation, so you can reference previous parts of the discussion.`;
+}
+
+function sectionSystemPromptV1(language, section, heading) {
+  return `You are an expert coding assistant revising one section of a LeetCode solution written in ${language.toUpperCase()}.
+
+Rewrite ONLY the "${SECTION_TITLES[section]}" section. Start your answer with its header line in the same markdown format as the original header:
+${heading}
+
+Keep it consistent with the other sections, use proper markdown, wrap code in \`\`\`${language} code blocks, and do not output any other section.`;
+}
+
+function translateSystemPromptV1(from, to) {
+  const fromLabel = languageLabel(from);
+  const toLabel = languageLabel(to);
+  return `You translate working LeetCode solutions between programming languages.
+
+Rewrite the ${fromLabel} solution in ${toLabel}:
+- Keep exactly the same algorithm, data structures and time and space complexity. Do not optimize or change the approach.
+- Use idiomatic ${toLabel}: its standard library collections, naming conventions and the usual LeetCode method signature for that language.
+- Keep any helpful comments, translated to match the new code.
+- Include all imports/includes needed.
+
+Reply with ONLY the code in a single \`\`\`${to} code block, no explanation.`;
+}
+
+function reviewSystemPromptV1(language, problemText) {
+  return `You are a senior engineer reviewing a candidate's ${language.toUpperCase()} solution to a LeetCode problem. Review THEIR code; do not replace it with your own approach unless it cannot work at all.
+
+**CRITICAL: ALL OUTPUT MUST USE PROPER MARKDOWN SYNTAX**
+
+The problem:
+${problemText ? `\`\`\`\n${problemText}\n\`\`\`` : 'No problem context available. Infer the problem from the code and say so.'}
+
+Use these sections (with EXACT markdown headers):
+## 🐞 Correctness
+ - Is the code correct? Point to the exact lines of any bug and give an input that triggers it with the expected and actual result.
+## 🧪 Missed Edge Cases
+ - Edge cases the code does not handle (empty input, single element, duplicates, overflow, negative numbers, ...). Say "None found" if it handles them all.
+## ⏱️ Complexity
+ - Time and space complexity of THEIR code in $\\mathcal{O}(n)$ notation, and whether it fits the constraints.
+## 🩹 Minimal Fix
+ - The smallest change that makes the code correct, as a unified diff in a \`\`\`diff code block against their code. If the code is already correct, say so and suggest at most one improvement.
+
+Be direct and concise.`;
+}
+
+const EDGE_CASES_SYSTEM_PROMPT_V1 = `You write test cases for coding problems. Reply with ONLY a JSON array of at most ${MAX_EDGE_CASES} objects shaped like {"input": "...", "output": "..."}.
+Cover edge cases the examples miss: smallest inputs, duplicates, negative numbers, already sorted or reversed input, no valid answer.
+Use exactly the same input and output format as the examples, keep inputs small, and double-check every expected output by working it out step by step before answering.`;
+
+function harnessSystemPromptV1(language) {
+  return `You write test harnesses. Output ONE complete, compilable ${language.toUpperCase()} program in a single \`\`\`${language} code block and nothing else.
+
+Rules:
+- Include the given solution code unchanged, plus every import it needs
+- Add a main entry point${language === 'java' ? ' in a public class named Main (the solution class must not be public)' : ''} that calls the solution once per example, in order
+- For each example print exactly one line: ${RESULT_MARKER} {"index": <example number>, "actual": <the return value as JSON>}
+- If the function returns nothing (in-place problems), print the first argument after the call instead
+- Catch errors per example and print ${RESULT_MARKER} {"index": <example number>, "error": "<message>"} instead
+- Do not read stdin and do not print anything else`;
+}
+
+const SUMMARIZE_SYSTEM_PROMPT_V1 = `You compress a coding tutoring conversation into a short memory for later turns.
+Keep: what the user asked, conclusions reached, corrections to the solution, code changes that were agreed on (describe them, do not copy whole code), and the user's stated preferences.
+Drop pleasantries and anything already in the original solution. Use terse bullet points, at most 200 words.`;
+
+// Practice conversations must open with a user turn, so the problem (or the
+// interview opener) goes first, ahead of the visible messages
+function practiceOpener(mode, problemText) {
+  const content = mode === 'interview' ? INTERVIEW_OPENING_REQUEST : `Here is the problem I am practicing:\n\n${problemText}`;
+  return { role: 'user', content };
+}
+
+function withMemory(systemPrompt, memory) {
+  return memory ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${memory}` : systemPrompt;
+}
+
+// While practicing, follow-ups stay in the coach or interviewer role so they do not give the answer away
+function followUpRoleV1({ mode, level, language, problemText }) {
+  if (mode === 'interview') return interviewSystemPromptV1(language, problemText);
+  if (mode === 'hints' && level) return hintSystemPromptV1(level, language);
+  return followUpSystemPromptV1(language, problemText);
+}
+
+// Each version returns the messages and the reply size for one request
+export const templates = {
+  solve: {
+    v1: ({ problemText, language }) => ({
+      maxTokens: 2000,
+      messages: [
+        { role: 'system', content: solveSystemPromptV1(language) },
+        {
+          role: 'user',
+          content: `Please solve this LeetCode problem and provide a comprehensive solution:
+
+${problemText}
+
+IMPORTANT: Do NOT include this current problem in your "Similar Problems" section. Only suggest OTHER different problems that use similar techniques.`
+        }
+      ]
+    })
+  },
+
+  hint: {
+    v1: ({ problemText, language, history, level }) => ({
+      maxTokens: 800,
+      messages: [
+        { role: 'system', content: hintSystemPromptV1(level, language) },
+        practiceOpener('hints', problemText),
+        ...history,
+        { role: 'user', content: `Give me the next step: ${HINT_STEPS[level]}.` }
+      ]
+    })
+  },
+
+  interview: {
+    v1: ({ problemText, language }) => ({
+      maxTokens: 600,
+      messages: [
+        { role: 'system', content: interviewSystemPromptV1(language, problemText) },
+        practiceOpener('interview', problemText)
+      ]
+    })
+  },
+
+  followup: {
+    v1: ({ problemText, language, history, question, mode, level, memory }) => ({
+      maxTokens: 1500,
+      messages: [
+        { role: 'system', content: withMemory(followUpRoleV1({ mode, level, language, problemText }), memory) },
+        ...(mode ? [practiceOpener(mode, problemText)] : []),
+        ...history,
+        { role: 'user', content: question }
+      ]
+    })
+  },
+
+  // Rewrites one section of a solve answer in place
+  section: {
+    v1: ({ problemText, language, solution, section, heading }) => ({
+      maxTokens: section === 'solution' ? 2000 : 1000,
+      messages: [
+        { role: 'system', content: sectionSystemPromptV1(language, section, heading) },
+        {
+          role: 'user',
+          content: `Problem:
+${problemBlock(problemText)}
+
+Current solution:
+${solution}
+
+Please write a new, improved version of the "${SECTION_TITLES[section]}" section.`
+        }
+      ]
+    })
+  },
+
+  translate: {
+    v1: ({ problemText, code, from, to }) => ({
+      maxTokens: 2000,
+      messages: [
+        { role: 'system', content: translateSystemPromptV1(from, to) },
+        {
+          role: 'user',
+          content: `Problem:
+${problemBlock(problemText)}
+
+${languageLabel(from)} solution:
+\`\`\`${from}
+${code}
+\`\`\``
+        }
+      ]
+    })
+  },
+
+  // Reviews the user's own code; the user turn is the message the chat shows
+  review: {
+    v1: ({ problemText, language, code }) => ({
+      maxTokens: 1500,
+      messages: [
+        { role: 'system', content: reviewSystemPromptV1(language, problemText) },
+        { role: 'user', content: `Please review my code:\n\n\`\`\`${language}\n${code}\n\`\`\`` }
+      ]
+    })
+  },
+
+  edgecases: {
+    v1: ({ problemText, examples }) => ({
+      maxTokens: 1000,
+      messages: [
+        { role: 'system', content: EDGE_CASES_SYSTEM_PROMPT_V1 },
+        {
+          role: 'user',
+          content: `Problem:
+${problemText}
+
+Examples:
+${examples.length > 0
+    ? examples.map((example) => JSON.stringify({ input: example.input, output: example.output })).join('\n')
+    : 'No examples were found; use LeetCode style inputs like "nums = [1,2], target = 3".'}`
+        }
+      ]
+    })
+  },
+
+  // A test harness for languages the extension cannot wrap itself
+  harness: {
+    v1: ({ language, code, examples }) => ({
+      maxTokens: 3000,
+      messages: [
+        { role: 'system', content: harnessSystemPromptV1(language) },
+        {
+          role: 'user',
+          content: `Solution:
+\`\`\`${language}
+${code}
+\`\`\`
+
+Examples (arguments in call order):
+${examples.map((example, index) => `Example ${index}: ${example.input}`).join('\n')}`
+        }
+      ]
+    })
+  },
+
+  // Folds older follow-up turns into the conversation memory
+  summarize: {
+    v1: ({ memory, history }) => ({
+      maxTokens: 400,
+      messages: [
+        { role: 'system', content: SUMMARIZE_SYSTEM_PROMPT_V1 },
+        {
+          role: 'user',
+          content: `${memory ? `Existing memory:\n${memory}\n\n` : ''}New turns to add:\n${history
+            .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+            .join('\n\n')}`
+        }
+      ]
+    })
+  }
+};
+
+export const TASKS = Object.keys(templates);
+
+// Task and version names come from requests and environment variables, so only
+// own keys count and "constructor" or "__proto__" are never found
+export const hasTemplate = (task, version) =>
+  Object.hasOwn(templates, task) && (version === undefined || Object.hasOwn(templates[task], version));
+
+// The newest version of a task, which is live unless the server pins another
+export const newestVersion = (task) => Object.keys(templates[task]).at(-1);
+
+function readHistory(history) {
+  if (history === undefined) return [];
+  const valid = Array.isArray(history) && history.every((message) =>
+    (message?.role === 'user' || message?.role === 'assistant') && typeof message.content === 'string'
+  );
+  if (!valid) {
+    throw new PromptError('history must be an array of { role: "user" | "assistant", content } messages');
+  }
+  return history.map(({ role, content }) => ({ role, content }));
+}
+
+function readText(body, name, { required = false } = {}) {
+  const value = body[name] ?? '';
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    throw new PromptError(required ? `${name} is required` : `${name} must be a string`);
+  }
+  return value;
+}
+
+// Language ids end up in the prompt and in code fences, so only plain ids
+function readLanguage(body, name = 'language') {
+  const value = body[name];
+  if (typeof value !== 'string' || !/^[a-z0-9+#]{1,20}$/i.test(value)) {
+    throw new PromptError(`${name} must be a language id like "python" or "cpp"`);
+  }
+  return value;
+}
+
+function readOptional(body, name) {
+  const value = body[name];
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    throw new PromptError(`${name} must be a string`);
+  }
+  return value || null;
+}
+
+function readExamples(body) {
+  const { examples = [] } = body;
+  const valid = Array.isArray(examples) && examples.length <= 50 && examples.every((example) =>
+    typeof example?.input === 'string' && (example.output === undefined || typeof example.output === 'string')
+  );
+  if (!valid) {
+    throw new PromptError('examples must be an array of at most 50 { input, output } objects');
+  }
+  return examples.map(({ input, output = '' }) => ({ input, output }));
+}
+
+// Solve, hint, interview and follow-up share the conversation inputs
+function readConversation(task, body) {
+  const { mode, level } = body;
+  if (mode !== undefined && mode !== null && mode !== 'hints' && mode !== 'interview') {
+    throw new PromptError('mode must be "hints" or "interview"');
+  }
+  if ((task === 'hint' || level) && !Object.hasOwn(HINT_STEPS, level)) {
+    throw new PromptError(`level must be one of: ${Object.keys(HINT_STEPS).join(', ')}`);
+  }
+
+  return {
+    problemText: readText(body, 'problemText'),
+    language: readLanguage(body),
+    history: readHistory(body.history),
+    question: task === 'followup' ? readText(body, 'question', { required: true }) : undefined,
+    mode: mode || null,
+    level: level || null,
+    memory: readOptional(body, 'memory')
+  };
+}
+
+// Reads each task's inputs from a request body, throwing a PromptError for the first bad field
+const inputs = {
+  solve: readConversation,
+  hint: readConversation,
+  interview: readConversation,
+  followup: readConversation,
+  section: (task, body) => {
+    if (!Object.hasOwn(SECTION_TITLES, body.section)) {
+      throw new PromptError(`section must be one of: ${Object.keys(SECTION_TITLES).join(', ')}`);
+    }
+    return {
+      problemText: readText(body, 'problemText'),
+      language: readLanguage(body),
+      solution: readText(body, 'solution', { required: true }),
+      section: body.section,
+      // The header line as the answer wrote it, complexity included
+      heading: readText(body, 'heading', { required: true }).split('\n')[0]
+    };
+  },
+  translate: (task, body) => ({
+    problemText: readText(body, 'problemText'),
+    code: readText(body, 'code', { required: true }),
+    from: readLanguage(body, 'from'),
+    to: readLanguage(body, 'to')
+  }),
+  review: (task, body) => ({
+    problemText: readText(body, 'problemText'),
+    language: readLanguage(body),
+    code: readText(body, 'code', { required: true })
+  }),
+  edgecases: (task, body) => ({
+    problemText: readText(body, 'problemText', { required: true }),
+    examples: readExamples(body)
+  }),
+  harness: (task, body) => ({
+    language: readLanguage(body),
+    code: readText(body, 'code', { required: true }),
+    examples: readExamples(body)
+  }),
+  summarize: (task, body) => ({
+    memory: readOptional(body, 'memory'),
+    history: readHistory(body.history)
+  })
+};
+
+export function readInput(task, body) {
+  return inputs[task](task, body);
+}
+
+// Messages and reply size of one version of a task's prompt
+export function renderPrompt(task, version, body) {
+  return {
+    version: `${task}@${version}`,
+    ...templates[task][version](readInput(task, body))
+  };
+}
@@ -0,0 +1,76 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.CACHE_BACKEND = 'memory';
+process.env.CACHE_MAX_ENTRIES = '2';
+
+const { cacheBackends, generateCacheKey, normalizeText, normalizeMessages } = await import('../cache.js');
+
+const keyFor = (messages) => generateCacheKey({ provider: 'openai', model: 'gpt-4o-mini', messages: normalizeMessages(messages) });
+
+test('normalizeText drops differences that do not change the answer', () => {
+  assert.equal(normalizeText('\nTwo Sum \t\r\n\r\n\r\n\r\nGiven\u200B nums  \n'), 'Two Sum\n\nGiven nums');
+  // NFKC folds lookalike forms such as fullwidth letters and digits
+  assert.equal(normalizeText('ｎｕｍｓ ＝ [１]'), 'nums = [1]');
+});
+
+test('cache keys match for the same problem captured twice', () => {
+  const first = keyFor([{ role: 'user', content: 'Two Sum\r\nnums = [2,7]  ' }]);
+  const second = keyFor([{ role: 'user', content: [{ type: 'text', text: 'Two Sum\nnums = [2,7]' }] }]);
+  const plain = keyFor([{ role: 'user', content: 'Two Sum\nnums = [2,7]' }]);
+
+  assert.equal(first, plain);
+  // Text parts are normalized, but the shape of the content still counts
+  assert.notEqual(second, plain);
+  assert.notEqual(keyFor([{ role: 'user', content: 'Two Sum\nnums = [2,8]' }]), plain);
+});
+
+test('code that differs only in indentation gets another key', () => {
+  const nested = keyFor([{ role: 'user', content: 'def f():\n    if x:\n        return 1\n    return 2' }]);
+  const flat = keyFor([{ role: 'user', content: 'def f():\n    if x:\n        return 1\n        return 2' }]);
+  const broken = keyFor([{ role: 'user', content: 'def f():\nreturn 1' }]);
+
+  assert.notEqual(nested, flat);
+  assert.notEqual(broken, keyFor([{ role: 'user', content: 'def f():\n    return 1' }]));
+  assert.notEqual(keyFor([{ role: 'user', content: '\tx = 1' }]), keyFor([{ role: 'user', content: '    x = 1' }]));
+});
+
+test('normalizeMessages leaves non-text content as is', () => {
+  const image = { type: 'image_url', image_url: { url: 'data:image/png;base64,aGk=' } };
+  assert.deepEqual(normalizeMessages([
+    { role: 'assistant', content: null },
+    { role: 'user' },
+    { role: 'user', content: [image, { type: 'text', text: 'hi \r\n' }] }
+  ]), [
+    { role: 'assistant', content: null },
+    { role: 'user', content: undefined },
+    { role: 'user', content: [image, { type: 'text', text: 'hi' }] }
+  ]);
+});
+
+test('the memory backend evicts the least recently used entry', async () => {
+  const store = cacheBackends.memory.create();
+  await store.set('a', 1, 60000);
+  await store.set('b', 2, 60000);
+  // Reading a makes b the least recently used
+  assert.equal(await store.get('a'), 1);
+  await store.set('c', 3, 60000);
+
+  assert.equal(await store.get('b'), null);
+  assert.equal(await store.get('a'), 1);
+  assert.equal(await store.get('c'), 3);
+});
+
+test('the memory backend expires entries after their ttl', async () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  try {
+    const store = cacheBackends.memory.create();
+    await store.set('a', 1, 1000);
+    mock.timers.tick(999);
+    assert.equal(await store.get('a'), 1);
+    mock.timers.tick(1);
+    assert.equal(await store.get('a'), null);
+  } finally {
+    mock.timers.reset();
+  }
+});
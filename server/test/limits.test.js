@@ -0,0 +1,108 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.INSTALL_SECRET = 'test-secret';
+process.env.RATE_LIMIT_BURST = '2';
+process.env.RATE_LIMIT_PER_MINUTE = '60';
+process.env.DAILY_REQUEST_QUOTA = '4';
+process.env.DAILY_TOKEN_QUOTA = '1000';
+process.env.MAX_COMPLETION_TOKENS = '500';
+process.env.MAX_OCR_IMAGES = '2';
+
+const {
+  LimitError,
+  issueInstallToken,
+  verifyInstallToken,
+  takeRequest,
+  chargeCompletionTokens,
+  checkChatRequest,
+  checkVisionRequest
+} = await import('../limits.js');
+
+const local = { name: 'local', allowedModels: null };
+
+const limitCode = (fn) => {
+  try {
+    fn();
+  } catch (error) {
+    assert.ok(error instanceof LimitError);
+    return error.code;
+  }
+  return null;
+};
+
+test('install tokens verify with their signature only', () => {
+  const token = issueInstallToken();
+  const [installId, signature] = token.split('.');
+
+  assert.equal(verifyInstallToken(token), installId);
+  assert.equal(verifyInstallToken(`${installId}.${signature.slice(0, -1)}x`), null);
+  assert.equal(verifyInstallToken(`${crypto.randomUUID()}.${signature}`), null);
+  assert.equal(verifyInstallToken(installId), null);
+  assert.equal(verifyInstallToken(''), null);
+  assert.equal(verifyInstallToken(undefined), null);
+});
+
+test('the token bucket allows a burst, then refills over time', () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 0, 1, 12) });
+  try {
+    const installId = 'bucket';
+    takeRequest(installId);
+    takeRequest(installId);
+
+    assert.throws(() => takeRequest(installId), (error) => error.code === 'rate_limited' && error.retryAfter === 1);
+
+    // One request per second
+    mock.timers.tick(1000);
+    takeRequest(installId);
+    assert.equal(limitCode(() => takeRequest(installId)), 'rate_limited');
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('the daily request quota resets at midnight UTC', () => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 0, 1, 23, 59) });
+  try {
+    const installId = 'daily';
+    for (let i = 0; i < 4; i++) {
+      takeRequest(installId);
+      mock.timers.tick(1000);
+    }
+
+    assert.throws(() => takeRequest(installId), (error) => error.code === 'quota_exceeded' && error.retryAfter === 56);
+
+    mock.timers.tick(60 * 1000);
+    assert.equal(limitCode(() => takeRequest(installId)), null);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test('completion tokens are charged against the daily quota', () => {
+  chargeCompletionTokens('tokens', 600);
+  assert.equal(limitCode(() => chargeCompletionTokens('tokens', 500)), 'quota_exceeded');
+  // A rejected charge does not count
+  chargeCompletionTokens('tokens', 400);
+  assert.equal(limitCode(() => chargeCompletionTokens('tokens', 1)), 'quota_exceeded');
+  assert.equal(limitCode(() => chargeCompletionTokens('other', 1000)), null);
+});
+
+test('chat requests are checked and max tokens clamped', () => {
+  const messages = [{ role: 'user', content: 'hi' }];
+
+  assert.equal(checkChatRequest(local, 'llama3.1', messages, 100), 100);
+  assert.equal(checkChatRequest(local, 'llama3.1', messages, 10000), 500);
+  assert.equal(checkChatRequest(local, 'llama3.1', messages, undefined), 500);
+  assert.equal(limitCode(() => checkChatRequest(local, 'llama3.1', [], 100)), 'bad_request');
+  assert.equal(limitCode(() => checkChatRequest({ name: 'openai', allowedModels: ['gpt-4o-mini'] }, 'o1', messages, 100)), 'model_not_allowed');
+});
+
+test('vision requests are capped by image count', () => {
+  const image = { image: { content: 'aGk=' } };
+
+  assert.equal(checkVisionRequest({ requests: [image, image] }), 2);
+  assert.equal(limitCode(() => checkVisionRequest({ requests: [image, image, image] })), 'too_many_images');
+  assert.equal(limitCode(() => checkVisionRequest({ requests: [] })), 'bad_request');
+  assert.equal(limitCode(() => checkVisionRequest({})), 'bad_request');
+});
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { templates, newestVersion, renderPrompt, PromptError } from '../templates.js';
+
+// A second version of each experimented task, so there is something to pick between
+const variant = (base) => (input) => ({ ...base(input), maxTokens: 1234 });
+templates.solve.v2 = variant(templates.solve.v1);
+templates.hint.v2 = variant(templates.hint.v1);
+templates.followup.v2 = variant(templates.followup.v1);
+
+// Pinned versions and experiments are read when prompts.js loads
+process.env.PROMPT_VERSIONS = 'hint=v1,review=v9';
+process.env.PROMPT_EXPERIMENTS = 'solve=v1:50,v2:50;followup=v1:1,missing:99';
+
+const { buildTaskPrompt, promptVersions } = await import('../prompts.js');
+
+const body = { problemText: 'Two Sum', language: 'python' };
+
+test('the newest version is live unless the task is pinned', () => {
+  assert.equal(newestVersion('hint'), 'v2');
+  assert.equal(buildTaskPrompt('hint', { ...body, level: 'pattern' }, 'install').version, 'hint@v1');
+  // Unknown pinned versions are ignored
+  assert.equal(buildTaskPrompt('review', { ...body, code: 'pass' }, 'install').version, 'review@v1');
+  // An experiment with a single valid arm is no experiment
+  assert.equal(buildTaskPrompt('followup', { ...body, question: 'Why?' }, 'install').version, 'followup@v2');
+});
+
+test('an install always lands in the same experiment arm', () => {
+  const versions = new Set();
+  for (let i = 0; i < 50; i++) {
+    const installId = `install-${i}`;
+    const version = buildTaskPrompt('solve', body, installId).version;
+    assert.equal(buildTaskPrompt('solve', body, installId).version, version);
+    versions.add(version);
+  }
+  assert.deepEqual([...versions].sort(), ['solve@v1', 'solve@v2']);
+});
+
+test('a requested version overrides the experiment', () => {
+  const prompt = buildTaskPrompt('solve', body, 'install', 'v2');
+  assert.equal(prompt.version, 'solve@v2');
+  assert.equal(prompt.maxTokens, 1234);
+
+  assert.throws(() => buildTaskPrompt('solve', body, 'install', 'v9'), PromptError);
+  assert.throws(() => buildTaskPrompt('solve', body, 'install', 'constructor'), PromptError);
+});
+
+test('unknown tasks are a 404', () => {
+  for (const task of ['nope', 'constructor', '__proto__']) {
+    assert.throws(() => buildTaskPrompt(task, body, 'install'), (error) => error instanceof PromptError && error.status === 404);
+  }
+});
+
+test('promptVersions reports the live version and experiment of each task', () => {
+  const versions = promptVersions();
+  assert.equal(versions.hint.live, 'v1');
+  assert.deepEqual(versions.hint.available, ['v1', 'v2']);
+  assert.deepEqual(versions.solve.experiment.map((arm) => arm.version), ['v1', 'v2']);
+  assert.equal(versions.followup.experiment, null);
+});
+
+test('task inputs are validated before rendering', () => {
+  assert.throws(() => renderPrompt('solve', 'v1', { ...body, language: 'py thon' }), /language must be a language id/);
+  assert.throws(() => renderPrompt('hint', 'v1', { ...body, level: 'constructor' }), /level must be one of/);
+  assert.throws(() => renderPrompt('section', 'v1', { ...body, solution: 's', heading: 'h', section: '__proto__' }), /section must be one of/);
+  assert.throws(() => renderPrompt('followup', 'v1', body), /question is required/);
+
+  const { messages } = renderPrompt('translate', 'v1', { code: 'x = 1', from: 'constructor', to: 'cpp' });
+  assert.match(messages[0].content, /C\+\+/);
+  assert.doesNotMatch(JSON.stringify(messages), /native code/);
+});
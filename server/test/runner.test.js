@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile, chmod } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+// A stand-in docker CLI: "run" records a running container, named by --name or
+// else anonymous, and never returns; "kill" removes the record. No daemon needed.
+const FAKE_DOCKER = `#!/bin/sh
+state="$FAKE_DOCKER_STATE"
+if [ "$1" = "run" ]; then
+  name="anonymous-$$"
+  while [ $# -gt 0 ]; do
+    if [ "$1" = "--name" ]; then name="$2"; fi
+    shift
+  done
+  touch "$state/$name"
+  exec sleep 60
+fi
+if [ "$1" = "kill" ]; then
+  rm -f "$state/$2"
+fi
+`;
+
+process.env.RUN_ENGINE = 'docker';
+const { resolveRunEngine } = await import('../runner.js');
+
+test('a docker run that never ends leaves no container behind', { timeout: 30000 }, async () => {
+  const bin = await mkdtemp(path.join(tmpdir(), 'fake-docker-'));
+  const state = await mkdtemp(path.join(tmpdir(), 'fake-docker-state-'));
+  const originalPath = process.env.PATH;
+  try {
+    await writeFile(path.join(bin, 'docker'), FAKE_DOCKER);
+    await chmod(path.join(bin, 'docker'), 0o755);
+    process.env.PATH = `${bin}${path.delimiter}${originalPath}`;
+    process.env.FAKE_DOCKER_STATE = state;
+
+    const result = await resolveRunEngine().run({ language: 'python', source: 'while True: pass', stdin: '', timeoutMs: 100 });
+
+    assert.equal(result.timedOut, true);
+    assert.deepEqual(await readdir(state), []);
+  } finally {
+    process.env.PATH = originalPath;
+    await rm(bin, { recursive: true, force: true });
+    await rm(state, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,129 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import { resilience, fetchUpstream, readWithIdleTimeout, circuitStates, UpstreamError } from '../upstream.js';
+
+// A local upstream that answers with the queued statuses, then 200
+let statuses = [];
+let calls = 0;
+let retryAfter = null;
+let server;
+let url;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    calls++;
+    const status = statuses.shift() || 200;
+    if (retryAfter !== null) res.setHeader('Retry-After', String(retryAfter));
+    res.writeHead(status).end(JSON.stringify({ status }));
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${server.address().port}/`;
+
+  Object.assign(resilience, { retries: 2, backoffBaseMs: 1, backoffMaxMs: 20, breakerThreshold: 2, breakerCooldownMs: 60000 });
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  statuses = [];
+  calls = 0;
+  retryAfter = null;
+});
+
+test('retryable statuses are retried until one succeeds', async () => {
+  statuses = [503, 429];
+  const response = await fetchUpstream('flaky', url, {});
+
+  assert.equal(response.status, 200);
+  assert.equal(calls, 3);
+  assert.equal(circuitStates().flaky.state, 'closed');
+});
+
+test('other errors are returned at once', async () => {
+  statuses = [400];
+  const response = await fetchUpstream('bad-request', url, {});
+
+  assert.equal(response.status, 400);
+  assert.equal(calls, 1);
+});
+
+test('the last failure is returned once the retries are used up', async () => {
+  statuses = [500, 500, 500, 500];
+  const response = await fetchUpstream('failing', url, {}, { retries: 1 });
+
+  assert.equal(response.status, 500);
+  assert.equal(calls, 2);
+});
+
+test('a short Retry-After is waited for before the retry', async () => {
+  statuses = [429];
+  retryAfter = 1;
+  resilience.backoffMaxMs = 2000;
+  try {
+    const startedAt = Date.now();
+    const response = await fetchUpstream('rate-limited', url, {});
+
+    assert.equal(response.status, 200);
+    assert.ok(Date.now() - startedAt >= 1000);
+  } finally {
+    resilience.backoffMaxMs = 20;
+  }
+});
+
+test('a Retry-After longer than the backoff cap is not waited for', async () => {
+  statuses = [429];
+  retryAfter = 60;
+  const response = await fetchUpstream('slow-down', url, {});
+
+  assert.equal(response.status, 429);
+  assert.equal(calls, 1);
+});
+
+test('the circuit opens after repeated failures and fails fast', async () => {
+  statuses = [503, 503];
+  await fetchUpstream('down', url, {}, { retries: 0 });
+  await fetchUpstream('down', url, {}, { retries: 0 });
+  assert.equal(circuitStates().down.state, 'open');
+
+  await assert.rejects(fetchUpstream('down', url, {}), (error) =>
+    error instanceof UpstreamError && error.status === 503 && error.retryAfter === 60);
+  assert.equal(calls, 2);
+});
+
+test('a half-open circuit closes again after a successful trial', async () => {
+  statuses = [503, 503];
+  await fetchUpstream('recovering', url, {}, { retries: 0 });
+  await fetchUpstream('recovering', url, {}, { retries: 0 });
+
+  resilience.breakerCooldownMs = 0;
+  try {
+    assert.equal(circuitStates().recovering.state, 'half-open');
+    const response = await fetchUpstream('recovering', url, {});
+    assert.equal(response.status, 200);
+    assert.equal(circuitStates().recovering.state, 'closed');
+  } finally {
+    resilience.breakerCooldownMs = 60000;
+  }
+});
+
+test('an unreachable upstream throws an UpstreamError', async () => {
+  await assert.rejects(fetchUpstream('unreachable', 'http://127.0.0.1:1/', {}, { retries: 0 }), (error) =>
+    error instanceof UpstreamError && error.code === 'upstream_unavailable');
+});
+
+test('a stream that stops sending times out', async () => {
+  resilience.streamIdleTimeoutMs = 50;
+  const body = new Readable({ read() {} });
+  body.push('first');
+
+  const chunks = [];
+  await assert.rejects(async () => {
+    for await (const chunk of readWithIdleTimeout('stalled', body)) {
+      chunks.push(String(chunk));
+    }
+  }, (error) => error instanceof UpstreamError && error.code === 'upstream_timeout');
+  assert.deepEqual(chunks, ['first']);
+  assert.ok(body.destroyed);
+});
@@ -0,0 +1,198 @@
+import fetch from 'node-fetch';
+import { log } from './logger.js';
+
+// Calls to LLM providers and Google Vision: a timeout on every attempt,
+// bounded retries with jittered backoff for 429s, 5xx and network failures,
+// and a circuit breaker per upstream so a provider that is down fails fast
+// instead of holding every request for the full timeout.
+
+function numberFromEnv(name, fallback) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const resilience = {
+  retries: numberFromEnv('UPSTREAM_RETRIES', 2),
+  // Until the response headers for streams, for the whole answer otherwise
+  timeoutMs: numberFromEnv('UPSTREAM_TIMEOUT_SECONDS', 60) * 1000,
+  // Longest gap between two chunks of a streamed answer
+  streamIdleTimeoutMs: numberFromEnv('STREAM_IDLE_TIMEOUT_SECONDS', 30) * 1000,
+  backoffBaseMs: numberFromEnv('RETRY_BASE_MS', 300),
+  backoffMaxMs: numberFromEnv('RETRY_MAX_MS', 5000),
+  breakerThreshold: numberFromEnv('BREAKER_FAILURES', 5),
+  breakerCooldownMs: numberFromEnv('BREAKER_COOLDOWN_SECONDS', 30) * 1000
+};
+
+// 529 is Anthropic's "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504, 529]);
+
+export const isRetryableStatus = (status) => RETRYABLE_STATUSES.has(status);
+
+// Thrown when an upstream could not be reached at all: timeouts, network
+// errors and open circuits. `code` is upstream_timeout or upstream_unavailable.
+export class UpstreamError extends Error {
+  constructor(message, status = 502, code = 'upstream_unavailable', retryAfter = null) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Circuit per upstream name: closed until `breakerThreshold` calls in a row
+// fail, then open for the cooldown, then one trial call decides (half open)
+const circuits = new Map();
+
+function circuitFor(name) {
+  if (!circuits.has(name)) {
+    circuits.set(name, { failures: 0, openedAt: null, trialRunning: false });
+  }
+  return circuits.get(name);
+}
+
+function circuitState(circuit) {
+  if (circuit.openedAt === null) return 'closed';
+  return Date.now() - circuit.openedAt < resilience.breakerCooldownMs ? 'open' : 'half-open';
+}
+
+function enterCircuit(name) {
+  const circuit = circuitFor(name);
+  const state = circuitState(circuit);
+
+  if (state === 'open' || (state === 'half-open' && circuit.trialRunning)) {
+    const retryAfter = Math.ceil((circuit.openedAt + resilience.breakerCooldownMs - Date.now()) / 1000);
+    throw new UpstreamError(`${name} is failing, requests are paused for a moment`, 503, 'upstream_unavailable', Math.max(retryAfter, 1));
+  }
+  if (state === 'half-open') {
+    circuit.trialRunning = true;
+  }
+  return circuit;
+}
+
+function recordOutcome(name, circuit, ok) {
+  circuit.trialRunning = false;
+  if (ok) {
+    circuit.failures = 0;
+    circuit.openedAt = null;
+    return;
+  }
+  circuit.failures++;
+  // A failed trial reopens at once, otherwise wait for the threshold
+  if (circuit.openedAt !== null || circuit.failures >= resilience.breakerThreshold) {
+    circuit.openedAt = Date.now();
+    log.warn('Circuit opened', { upstream: name, failures: circuit.failures });
+  }
+}
+
+// For /stats and /ready
+export function circuitStates() {
+  const states = {};
+  for (const [name, circuit] of circuits) {
+    states[name] = { state: circuitState(circuit), failures: circuit.failures };
+  }
+  return states;
+}
+
+// "Full jitter": a random wait up to the exponential step, so clients that
+// failed together do not retry together
+function backoffDelay(attempt) {
+  return Math.random() * Math.min(resilience.backoffMaxMs, resilience.backoffBaseMs * 2 ** attempt);
+}
+
+// Retry-After in milliseconds, when the upstream sent one in seconds
+function retryAfterMs(response) {
+  const seconds = Number(response.headers.get('retry-after'));
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * fetch() with a timeout per attempt, retries and the circuit breaker of the
+ * upstream `name`. Resolves with the last response, which may still be an
+ * error the caller reports; throws UpstreamError when nothing answered.
+ * With `stream` the timeout stops at the response headers, the body is
+ * watched by readWithIdleTimeout instead.
+ */
+export async function fetchUpstream(name, url, init, { stream = false, retries = resilience.retries } = {}) {
+  const circuit = enterCircuit(name);
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), resilience.timeoutMs);
+    timer.unref();
+
+    let response = null;
+    let failure = null;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+      if (stream) clearTimeout(timer);
+    } catch (error) {
+      clearTimeout(timer);
+      failure = controller.signal.aborted
+        ? new UpstreamError(`${name} did not answer within ${resilience.timeoutMs / 1000} seconds`, 504, 'upstream_timeout')
+        : new UpstreamError(`${name} could not be reached: ${error.message}`);
+    }
+
+    const retryable = failure !== null || isRetryableStatus(response.status);
+    if (!retryable) {
+      recordOutcome(name, circuit, true);
+      return response;
+    }
+
+    // An upstream asking for a longer pause than we would wait is not retried
+    let delay = backoffDelay(attempt);
+    const requested = response && retryAfterMs(response);
+    if (requested !== null && requested !== undefined) {
+      delay = requested <= resilience.backoffMaxMs ? Math.max(delay, requested) : Infinity;
+    }
+
+    if (attempt >= retries || delay === Infinity) {
+      recordOutcome(name, circuit, false);
+      if (failure) throw failure;
+      return response;
+    }
+
+    log.warn('Retrying upstream call', {
+      upstream: name,
+      attempt: attempt + 1,
+      status: response?.status,
+      error: failure?.message,
+      delayMs: Math.round(delay)
+    });
+    // Free the connection of a response we are not going to read
+    response?.body?.resume?.();
+    await sleep(delay);
+  }
+}
+
+/**
+ * Iterates a streamed response body, failing with an UpstreamError when no
+ * chunk arrives for `streamIdleTimeoutMs`. The body is destroyed on timeout so
+ * the connection does not linger.
+ */
+export async function* readWithIdleTimeout(name, body) {
+  const iterator = body[Symbol.asyncIterator]();
+
+  while (true) {
+    let timer;
+    const idle = new Promise((resolve, reject) => {
+      timer = setTimeout(() => {
+        body.destroy?.();
+        reject(new UpstreamError(`${name} stopped sending for ${resilience.streamIdleTimeoutMs / 1000} seconds`, 504, 'upstream_timeout'));
+      }, resilience.streamIdleTimeoutMs);
+    });
+
+    // The read left behind by a timeout rejects once the body is destroyed
+    const next = iterator.next();
+    next.catch(() => {});
+
+    try {
+      const { value, done } = await Promise.race([next, idle]);
+      if (done) return;
+      yield value;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}